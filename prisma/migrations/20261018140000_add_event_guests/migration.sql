@@ -0,0 +1,43 @@
+-- DropForeignKey
+ALTER TABLE "Image" DROP CONSTRAINT "Image_uploaderId_fkey";
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "allowGuestUploads" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN     "guestId" TEXT,
+ALTER COLUMN "uploaderId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "EventGuest" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "claimedById" TEXT,
+    "claimedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventGuest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventGuest_eventId_idx" ON "EventGuest"("eventId");
+
+-- CreateIndex
+CREATE INDEX "EventGuest_claimedById_idx" ON "EventGuest"("claimedById");
+
+-- CreateIndex
+CREATE INDEX "Image_guestId_idx" ON "Image"("guestId");
+
+-- AddForeignKey
+ALTER TABLE "Image" ADD CONSTRAINT "Image_uploaderId_fkey" FOREIGN KEY ("uploaderId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Image" ADD CONSTRAINT "Image_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "EventGuest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventGuest" ADD CONSTRAINT "EventGuest_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventGuest" ADD CONSTRAINT "EventGuest_claimedById_fkey" FOREIGN KEY ("claimedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
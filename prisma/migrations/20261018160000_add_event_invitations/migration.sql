@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "EventInvitation" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "email" TEXT,
+    "tokenHash" TEXT NOT NULL,
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventInvitation_tokenHash_key" ON "EventInvitation"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "EventInvitation_eventId_idx" ON "EventInvitation"("eventId");
+
+-- CreateIndex
+CREATE INDEX "EventInvitation_email_idx" ON "EventInvitation"("email");
+
+-- AddForeignKey
+ALTER TABLE "EventInvitation" ADD CONSTRAINT "EventInvitation_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EventInvitation" ADD CONSTRAINT "EventInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
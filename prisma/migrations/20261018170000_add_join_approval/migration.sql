@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "requireApproval" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "EventRole" AS ENUM ('ADMIN', 'MODERATOR', 'ATTENDEE');
+
+-- Normalize free-form roles before the type change
+UPDATE "EventParticipant" SET "role" = UPPER("role");
+UPDATE "EventParticipant" SET "role" = 'ATTENDEE' WHERE "role" NOT IN ('ADMIN', 'MODERATOR', 'ATTENDEE');
+
+-- AlterTable
+ALTER TABLE "EventParticipant" ALTER COLUMN "role" DROP DEFAULT,
+ALTER COLUMN "role" TYPE "EventRole" USING ("role"::"EventRole"),
+ALTER COLUMN "role" SET DEFAULT 'ATTENDEE';
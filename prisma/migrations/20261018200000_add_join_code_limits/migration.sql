@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "joinCodeMaxUses" INTEGER,
+ADD COLUMN     "joinCodeUseCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Normalize existing codes the way user input is normalized, skipping any that would collide
+UPDATE "Event" e
+SET "joinCode" = UPPER(REGEXP_REPLACE(e."joinCode", '[\s-]', '', 'g'))
+WHERE e."joinCode" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "Event" o
+    WHERE o."id" <> e."id"
+      AND UPPER(REGEXP_REPLACE(o."joinCode", '[\s-]', '', 'g')) = UPPER(REGEXP_REPLACE(e."joinCode", '[\s-]', '', 'g'))
+  );
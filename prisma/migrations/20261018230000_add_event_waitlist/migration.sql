@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "ParticipantStatus" ADD VALUE 'WAITLISTED';
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "enableWaitlist" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "EventParticipant" ADD COLUMN     "waitlistedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "EventParticipant_eventId_status_waitlistedAt_idx" ON "EventParticipant"("eventId", "status", "waitlistedAt");
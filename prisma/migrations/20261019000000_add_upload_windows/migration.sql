@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "galleryLockedAt" TIMESTAMP(3),
+ADD COLUMN     "uploadClosesDaysAfter" INTEGER,
+ADD COLUMN     "uploadOpensHoursBefore" INTEGER,
+ADD COLUMN     "uploadsReopenedUntil" TIMESTAMP(3);
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "EventStatus" AS ENUM ('DRAFT', 'SCHEDULED', 'LIVE', 'ENDED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "status" "EventStatus" NOT NULL DEFAULT 'LIVE';
+
+-- Existing events start in the state their dates put them in
+UPDATE "Event" SET "status" = 'ENDED' WHERE "endDate" IS NOT NULL AND "endDate" <= CURRENT_TIMESTAMP;
+UPDATE "Event" SET "status" = 'SCHEDULED' WHERE "status" = 'LIVE' AND "startDate" IS NOT NULL AND "startDate" > CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "Event_status_startDate_idx" ON "Event"("status", "startDate");
+
+-- CreateIndex
+CREATE INDEX "Event_status_endDate_idx" ON "Event"("status", "endDate");
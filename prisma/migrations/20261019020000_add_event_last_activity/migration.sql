@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill from the latest media upload or participant join
+UPDATE "Event" e SET "lastActivityAt" = GREATEST(
+    e."createdAt",
+    COALESCE((SELECT MAX(i."createdAt") FROM "Image" i WHERE i."eventId" = e."id"), e."createdAt"),
+    COALESCE((SELECT MAX(p."joinedAt") FROM "EventParticipant" p WHERE p."eventId" = e."id"), e."createdAt")
+);
+
+-- CreateIndex
+CREATE INDEX "Event_lastActivityAt_idx" ON "Event"("lastActivityAt");
@@ -0,0 +1,26 @@
+-- AlterTable
+-- Generated columns keep the search vectors in step with every write, including ones made outside the app
+ALTER TABLE "Event" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("location", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce("description", ''))
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+    to_tsvector('english', "content")
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Event_searchVector_idx" ON "Event" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Image_searchVector_idx" ON "Image" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Comment_searchVector_idx" ON "Comment" USING GIN ("searchVector");
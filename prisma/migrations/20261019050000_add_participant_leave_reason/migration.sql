@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "LeaveReason" AS ENUM ('LEFT', 'REMOVED');
+
+-- AlterTable
+ALTER TABLE "EventParticipant" ADD COLUMN     "leftReason" "LeaveReason";
+
+-- Participants who left before reasons were recorded could only have left by themselves or been removed;
+-- treat them as having left, as the rejoin rules did until now
+UPDATE "EventParticipant" SET "leftReason" = 'LEFT' WHERE "status" = 'LEFT';
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "LeaveReason" ADD VALUE 'LEFT_WAITLIST';
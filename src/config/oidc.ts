@@ -0,0 +1,46 @@
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string[];
+}
+
+/**
+ * Load a provider from environment variables. For a provider keyed "google":
+ * OIDC_GOOGLE_ISSUER, OIDC_GOOGLE_CLIENT_ID, OIDC_GOOGLE_CLIENT_SECRET,
+ * OIDC_GOOGLE_REDIRECT_URI and optionally OIDC_GOOGLE_NAME / OIDC_GOOGLE_SCOPES.
+ */
+const loadProvider = (id: string): OidcProviderConfig | null => {
+  const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+  const issuer = process.env[`${prefix}ISSUER`];
+  const clientId = process.env[`${prefix}CLIENT_ID`];
+  const redirectUri = process.env[`${prefix}REDIRECT_URI`];
+
+  if (!issuer || !clientId || !redirectUri) {
+    return null;
+  }
+
+  return {
+    id,
+    name: process.env[`${prefix}NAME`] || id,
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env[`${prefix}CLIENT_SECRET`],
+    redirectUri,
+    scopes: (process.env[`${prefix}SCOPES`] || 'openid email profile').split(/[\s,]+/).filter(Boolean),
+  };
+};
+
+export const oidcProviders: OidcProviderConfig[] = (process.env.OIDC_PROVIDERS || '')
+  .split(',')
+  .map(id => id.trim().toLowerCase())
+  .filter(Boolean)
+  .map(loadProvider)
+  .filter((provider): provider is OidcProviderConfig => provider !== null);
+
+export const getOidcProvider = (id: string): OidcProviderConfig | undefined => {
+  return oidcProviders.find(provider => provider.id === id.toLowerCase());
+};
@@ -36,6 +36,12 @@ const swaggerDefinition = {
             nullable: true,
             description: 'URL to user\'s avatar image'
           },
+          emailVerifiedAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+            description: 'When the user verified their email address'
+          },
           createdAt: {
             type: 'string',
             format: 'date-time',
@@ -51,7 +57,32 @@ const swaggerDefinition = {
           },
           token: {
             type: 'string',
-            description: 'JWT authentication token'
+            description: 'Short-lived JWT access token'
+          },
+          refreshToken: {
+            type: 'string',
+            description: 'Single-use token for obtaining a new access token'
+          },
+          expiresIn: {
+            type: 'integer',
+            description: 'Access token lifetime in seconds'
+          }
+        }
+      },
+      AuthTokens: {
+        type: 'object',
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Short-lived JWT access token'
+          },
+          refreshToken: {
+            type: 'string',
+            description: 'Single-use token for obtaining a new access token'
+          },
+          expiresIn: {
+            type: 'integer',
+            description: 'Access token lifetime in seconds'
           }
         }
       },
@@ -67,6 +98,87 @@ const swaggerDefinition = {
             description: 'Error details (only in development)'
           }
         }
+      },
+      EventPagination: {
+        type: 'object',
+        properties: {
+          nextCursor: {
+            type: 'string',
+            nullable: true,
+            description: 'Pass as cursor to fetch the next page'
+          },
+          hasNextPage: {
+            type: 'boolean'
+          },
+          itemsPerPage: {
+            type: 'integer'
+          }
+        }
+      }
+    },
+    parameters: {
+      EventSearch: {
+        in: 'query',
+        name: 'q',
+        description: 'Full-text search across name, location and description, in web search syntax (quotes, or, -)',
+        schema: { type: 'string', maxLength: 100 }
+      },
+      EventFrom: {
+        in: 'query',
+        name: 'from',
+        description: 'Only events starting at or after this date',
+        schema: { type: 'string', format: 'date-time' }
+      },
+      EventTo: {
+        in: 'query',
+        name: 'to',
+        description: 'Only events starting at or before this date',
+        schema: { type: 'string', format: 'date-time' }
+      },
+      EventVisibility: {
+        in: 'query',
+        name: 'visibility',
+        schema: { type: 'string', enum: ['PRIVATE', 'PUBLIC', 'INVITE_ONLY'] }
+      },
+      EventGalleryStyle: {
+        in: 'query',
+        name: 'galleryStyle',
+        schema: { type: 'string', enum: ['SCRAPBOOK', 'GRID', 'TIMELINE'] }
+      },
+      EventCreator: {
+        in: 'query',
+        name: 'creatorId',
+        description: 'Only events created by this user',
+        schema: { type: 'string' }
+      },
+      EventPhase: {
+        in: 'query',
+        name: 'phase',
+        description: 'Only events in this phase; without it, archived events are left out',
+        schema: { type: 'string', enum: ['draft', 'upcoming', 'live', 'past', 'archived'] }
+      },
+      EventSort: {
+        in: 'query',
+        name: 'sort',
+        description: 'activity is the latest upload, comment or join; mediaCount is the number of uploads',
+        schema: { type: 'string', enum: ['createdAt', 'startDate', 'activity', 'mediaCount'], default: 'createdAt' }
+      },
+      EventOrder: {
+        in: 'query',
+        name: 'order',
+        description: 'Defaults to asc for startDate and desc otherwise',
+        schema: { type: 'string', enum: ['asc', 'desc'] }
+      },
+      EventCursor: {
+        in: 'query',
+        name: 'cursor',
+        description: 'The nextCursor of the previous page',
+        schema: { type: 'string' }
+      },
+      EventLimit: {
+        in: 'query',
+        name: 'limit',
+        schema: { type: 'integer', default: 20, maximum: 100 }
       }
     },
     securitySchemes: {
@@ -74,6 +186,12 @@ const swaggerDefinition = {
         type: 'http',
         scheme: 'bearer',
         bearerFormat: 'JWT',
+      },
+      apiKeyAuth: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'Authorization',
+        description: 'Personal API key sent as `ApiKey <key>`',
       }
     },
     responses: {
@@ -0,0 +1,130 @@
+import { NextFunction, Response } from 'express';
+import { BadRequest, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { API_KEY_SCOPES, generateApiKey, isValidScopeList } from '../utils/apiKeys';
+
+const MAX_ACTIVE_KEYS = 20;
+
+interface CreateApiKeyInput {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}
+
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+export const getApiKeys = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const apiKeys = await req.prisma?.apiKey.findMany({
+      where: { userId },
+      select: apiKeySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    new ResponseLib(req, res).json({ data: apiKeys, availableScopes: API_KEY_SCOPES });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createApiKey = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { name, scopes, expiresInDays }: CreateApiKeyInput = req.body;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    if (!name?.trim()) {
+      throw new BadRequest('Validation', 'Name is required');
+    }
+
+    if (!isValidScopeList(scopes)) {
+      throw new BadRequest('Validation', `Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`);
+    }
+
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1)) {
+      throw new BadRequest('Validation', 'expiresInDays must be a positive whole number');
+    }
+
+    const activeKeys = await req.prisma?.apiKey.count({
+      where: {
+        userId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+
+    if ((activeKeys || 0) >= MAX_ACTIVE_KEYS) {
+      throw new BadRequest('ApiKey', `You can have at most ${MAX_ACTIVE_KEYS} active API keys`);
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await req.prisma?.apiKey.create({
+      data: {
+        userId,
+        name: name.trim(),
+        prefix,
+        keyHash,
+        scopes: Array.from(new Set(scopes)),
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      },
+      select: apiKeySelect,
+    });
+
+    // The raw key is only ever returned here
+    new ResponseLib(req, res).status(201).json({ ...apiKey, key });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeApiKey = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const { count } = await req.prisma!.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFound('ApiKey', 'API key not found');
+    }
+
+    new ResponseLib(req, res).json({ message: 'API key revoked successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,9 +1,30 @@
 import bcrypt from 'bcryptjs';
 import { NextFunction, Response } from 'express';
-import jwt from 'jsonwebtoken';
-import { BadRequest, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ErrorLib, { BadRequest, NotFound, TooManyRequests, Unauthorized } from '../libs/Error.Lib';
 import ResponseLib from '../libs/Response.Lib';
 import { AuthRequest } from '../types';
+import { JoinOutcome, joinEventAsUser } from '../utils/eventMembership';
+import { normalizeJoinCode } from '../utils/joinCodes';
+import { assertCanResendVerification, consumeVerificationToken, sendVerificationEmail } from '../utils/emailVerification';
+import { assertLoginAllowed, recordLoginFailure, resetLoginFailures } from '../utils/loginThrottle';
+import { buildAppUrl, sendMail } from '../utils/mailer';
+import {
+  generateToken,
+  hashToken,
+  issueAuthTokens,
+  reclaimUnverifiedAccount,
+  revokeSessionFamily,
+  revokeUserSessions,
+  rotateRefreshToken,
+} from '../utils/session';
+import { createTwoFactorChallenge } from '../utils/twoFactor';
+
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES as string) || 60;
+const MAGIC_LINK_TTL_MINUTES = parseInt(process.env.MAGIC_LINK_TTL_MINUTES as string) || 15;
+const MAGIC_LINK_MAX_PER_HOUR = 5;
+
+// Compared against when the email is unknown so response timing doesn't reveal registered accounts
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('moments-dummy-password', 10);
 
 interface RegisterInput {
   name: string;
@@ -17,6 +38,35 @@ interface LoginInput {
   password: string;
 }
 
+interface RefreshInput {
+  refreshToken: string;
+}
+
+interface ForgotPasswordInput {
+  email: string;
+}
+
+interface ResetPasswordInput {
+  token: string;
+  password: string;
+}
+
+interface MagicLinkInput {
+  email: string;
+  name?: string;
+  eventId?: string;
+  joinCode?: string;
+}
+
+interface ConsumeMagicLinkInput {
+  token: string;
+}
+
+const getSessionMeta = (req: AuthRequest) => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
 export const register = async (
   req: AuthRequest,
   res: Response,
@@ -50,17 +100,16 @@ export const register = async (
         name: true,
         email: true,
         avatar: true,
+        emailVerifiedAt: true,
         createdAt: true,
       },
     });
 
-    const token = jwt.sign(
-      { id: user?.id, email: user?.email, name: user?.name },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    await sendVerificationEmail(req.prisma!, user!, user!.email);
 
-    new ResponseLib(req, res).status(201).json({ user, token });
+    const tokens = await issueAuthTokens(req.prisma!, user!, getSessionMeta(req));
+
+    new ResponseLib(req, res).status(201).json({ user, ...tokens });
   } catch (error) {
     next(error);
   }
@@ -78,27 +127,103 @@ export const login = async (
       throw new BadRequest('Validation', 'Email and password are required');
     }
 
+    const throttleSubject = { account: email, ip: req.ip };
+    await assertLoginAllowed(throttleSubject);
+
     const user = await req.prisma?.user.findUnique({
       where: { email },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        password: true,
+        avatar: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
     });
 
-    if (!user) {
-      throw new NotFound('User', 'User not found');
+    // Unknown emails and provider-only accounts fail exactly like a wrong password
+    const isValidPassword = await bcrypt.compare(password, user?.password || DUMMY_PASSWORD_HASH);
+    if (!user?.password || !isValidPassword) {
+      await recordLoginFailure(throttleSubject);
+      throw new Unauthorized('Auth', 'Invalid credentials');
     }
 
-    const isValidPassword = await bcrypt.compare(password, user.password);
-    if (!isValidPassword) {
-      throw new Unauthorized('Auth', 'Invalid credentials');
+    await resetLoginFailures(email);
+
+    // Organizers with 2FA get a challenge to exchange via /api/auth/2fa/verify
+    if (user.totpEnabledAt) {
+      return void new ResponseLib(req, res).json({
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user.id),
+      });
     }
 
     const { password: _, ...userWithoutPassword } = user;
-    const token = jwt.sign(
-      { id: user.id, email: user.email, name: user.name },
-      process.env.JWT_SECRET!,
-      { expiresIn: '7d' }
-    );
+    const tokens = await issueAuthTokens(req.prisma!, user, getSessionMeta(req));
+
+    new ResponseLib(req, res).json({ user: userWithoutPassword, ...tokens });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refresh = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { refreshToken }: RefreshInput = req.body;
+
+    if (!refreshToken) {
+      throw new BadRequest('Validation', 'Refresh token is required');
+    }
+
+    const tokens = await rotateRefreshToken(req.prisma!, refreshToken, getSessionMeta(req));
 
-    new ResponseLib(req, res).json({ user: userWithoutPassword, token });
+    new ResponseLib(req, res).json(tokens);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logout = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const sessionId = req.user?.sid;
+    if (!sessionId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    await revokeSessionFamily(req.prisma!, sessionId);
+
+    new ResponseLib(req, res).json({ message: 'Logged out successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const logoutAllDevices = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    await revokeUserSessions(req.prisma!, userId);
+
+    new ResponseLib(req, res).json({ message: 'Logged out of all devices successfully' });
   } catch (error) {
     next(error);
   }
@@ -122,6 +247,7 @@ export const getCurrentUser = async (
         name: true,
         email: true,
         avatar: true,
+        emailVerifiedAt: true,
         createdAt: true,
         _count: {
           select: {
@@ -141,4 +267,315 @@ export const getCurrentUser = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+export const forgotPassword = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email }: ForgotPasswordInput = req.body;
+
+    if (!email) {
+      throw new BadRequest('Validation', 'Email is required');
+    }
+
+    const user = await req.prisma?.user.findUnique({
+      where: { email },
+      select: { id: true, name: true, email: true },
+    });
+
+    if (user) {
+      // Only the most recently requested link should work
+      await req.prisma?.passwordResetToken.deleteMany({
+        where: { userId: user.id, usedAt: null },
+      });
+
+      const token = generateToken(32);
+      await req.prisma?.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+        },
+      });
+
+      const resetUrl = buildAppUrl('/reset-password', { token });
+      await sendMail({
+        to: user.email,
+        subject: 'Reset your Moments password',
+        text: `Hi ${user.name},\n\nWe received a request to reset your password. Use the link below to choose a new one:\n\n${resetUrl}\n\nThis link expires in ${PASSWORD_RESET_TTL_MINUTES} minutes. If you did not request a reset you can ignore this email.`,
+      });
+    }
+
+    // Same response whether or not the account exists, so emails can't be probed
+    new ResponseLib(req, res).json({
+      message: 'If an account exists for this email, a password reset link has been sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetPassword = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { token, password }: ResetPasswordInput = req.body;
+
+    if (!token || !password) {
+      throw new BadRequest('Validation', 'Token and password are required');
+    }
+
+    if (password.length < 6) {
+      throw new BadRequest('Validation', 'Password must be at least 6 characters');
+    }
+
+    const resetToken = await req.prisma?.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { id: true, userId: true, usedAt: true, expiresAt: true },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      throw new BadRequest('Token', 'Invalid or expired reset token');
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    await req.prisma!.$transaction(async (tx) => {
+      // Conditional update so two concurrent resets can't both consume the token
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new BadRequest('Token', 'Invalid or expired reset token');
+      }
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword },
+      });
+    });
+
+    await revokeUserSessions(req.prisma!, resetToken.userId);
+
+    new ResponseLib(req, res).json({ message: 'Password has been reset successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyEmail = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const token = req.query.token as string;
+
+    if (!token) {
+      throw new BadRequest('Validation', 'Verification token is required');
+    }
+
+    const { email } = await consumeVerificationToken(req.prisma!, token);
+
+    new ResponseLib(req, res).json({ message: 'Email verified successfully', email });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendVerificationEmail = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const user = await req.prisma?.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, emailVerifiedAt: true },
+    });
+
+    if (!user) {
+      throw new NotFound('User', 'User not found');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new BadRequest('Email', 'Email is already verified');
+    }
+
+    await assertCanResendVerification(req.prisma!, userId);
+    await sendVerificationEmail(req.prisma!, user, user.email);
+
+    new ResponseLib(req, res).json({ message: 'Verification email sent' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const requestMagicLink = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email, name, eventId, joinCode }: MagicLinkInput = req.body;
+
+    if (!email) {
+      throw new BadRequest('Validation', 'Email is required');
+    }
+
+    const recentLinks = await req.prisma?.magicLinkToken.count({
+      where: { email, createdAt: { gt: new Date(Date.now() - 60 * 60 * 1000) } },
+    });
+
+    if ((recentLinks || 0) >= MAGIC_LINK_MAX_PER_HOUR) {
+      throw new TooManyRequests('Too many sign-in links requested, please try again later');
+    }
+
+    // The event can be given by id, or found from its join code alone
+    let event: { id: string; name: string } | undefined;
+    if (eventId || joinCode) {
+      const found = await req.prisma?.event.findUnique({
+        where: eventId ? { id: eventId } : { joinCode: normalizeJoinCode(joinCode!) },
+        select: { id: true, name: true, joinCode: true },
+      });
+
+      if (!found) {
+        throw new NotFound('Event', eventId ? 'Event not found' : 'Invalid join code');
+      }
+
+      if (found.joinCode && (!joinCode || normalizeJoinCode(joinCode) !== found.joinCode)) {
+        throw new BadRequest('Event', 'Invalid join code');
+      }
+      event = found;
+    }
+    const eventName = event?.name;
+
+    const token = generateToken(32);
+    await req.prisma?.magicLinkToken.create({
+      data: {
+        email,
+        name,
+        eventId: event?.id,
+        joinCode,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+      },
+    });
+
+    const signInUrl = buildAppUrl('/magic-link', { token });
+    await sendMail({
+      to: email,
+      subject: eventName ? `Your link to join ${eventName} on Moments` : 'Your Moments sign-in link',
+      text: `Hi${name ? ` ${name}` : ''},\n\nOpen the link below to sign in${eventName ? ` and join ${eventName}` : ''}:\n\n${signInUrl}\n\nThis link can only be used once and expires in ${MAGIC_LINK_TTL_MINUTES} minutes.`,
+    });
+
+    new ResponseLib(req, res).json({ message: 'A sign-in link has been sent to your email' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const consumeMagicLink = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { token }: ConsumeMagicLinkInput = req.body;
+
+    if (!token) {
+      throw new BadRequest('Validation', 'Token is required');
+    }
+
+    const magicLink = await req.prisma?.magicLinkToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!magicLink || magicLink.usedAt || magicLink.expiresAt < new Date()) {
+      throw new Unauthorized('Auth', 'Invalid or expired sign-in link');
+    }
+
+    const { count } = await req.prisma!.magicLinkToken.updateMany({
+      where: { id: magicLink.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Unauthorized('Auth', 'Invalid or expired sign-in link');
+    }
+
+    const userSelect = {
+      id: true,
+      name: true,
+      email: true,
+      avatar: true,
+      emailVerifiedAt: true,
+      totpEnabledAt: true,
+      createdAt: true,
+    };
+
+    // Opening the link proves ownership of the address, so unknown emails get a lightweight account
+    const user = await req.prisma!.user.upsert({
+      where: { email: magicLink.email },
+      create: {
+        name: magicLink.name || magicLink.email.split('@')[0],
+        email: magicLink.email,
+        emailVerifiedAt: new Date(),
+      },
+      update: {},
+      select: userSelect,
+    });
+
+    if (!user.emailVerifiedAt) {
+      await reclaimUnverifiedAccount(req.prisma!, user.id);
+      user.emailVerifiedAt = new Date();
+      user.totpEnabledAt = null;
+      await req.prisma?.user.update({ where: { id: user.id }, data: { emailVerifiedAt: user.emailVerifiedAt } });
+    }
+
+    let joinedEventId: string | undefined;
+    let joinStatus: JoinOutcome | undefined;
+    let joinError: string | undefined;
+    if (magicLink.eventId) {
+      try {
+        joinStatus = await req.prisma!.$transaction(tx => joinEventAsUser(tx, magicLink.eventId!, user.id, {
+          joinCode: magicLink.joinCode || undefined,
+        }));
+        if (joinStatus === 'joined' || joinStatus === 'rejoined') {
+          joinedEventId = magicLink.eventId;
+        }
+      } catch (error) {
+        // Signing in still succeeds; the client can show why the join didn't happen
+        if (!(error instanceof ErrorLib)) throw error;
+        joinError = error.message;
+      }
+    }
+
+    if (user.totpEnabledAt) {
+      return void new ResponseLib(req, res).json({
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user.id),
+        joinedEventId,
+        joinStatus,
+        joinError,
+      });
+    }
+
+    const tokens = await issueAuthTokens(req.prisma!, user, getSessionMeta(req));
+
+    new ResponseLib(req, res).json({ user, ...tokens, joinedEventId, joinStatus, joinError });
+  } catch (error) {
+    next(error);
+  }
+};
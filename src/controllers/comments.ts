@@ -0,0 +1,303 @@
+import { Prisma } from '@prisma/client';
+import { NextFunction, Response } from 'express';
+import { BadRequest, Forbidden, NotFound } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { recordEventActivity } from '../utils/eventListing';
+import { getImageAccess } from '../utils/mediaAccess';
+import { EventPermission } from '../utils/permissions';
+import { assertGalleryUnlocked } from '../utils/uploadWindow';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+interface CreateCommentInput {
+  content: string;
+  parentId?: string;
+}
+
+interface UpdateCommentInput {
+  content: string;
+}
+
+const commentSelect = {
+  id: true,
+  content: true,
+  parentId: true,
+  editedAt: true,
+  deletedAt: true,
+  createdAt: true,
+  author: { select: { id: true, name: true, avatar: true } },
+} satisfies Prisma.CommentSelect;
+
+type CommentRow = Prisma.CommentGetPayload<{ select: typeof commentSelect }>;
+
+// Deleted comments that still have replies are shown as placeholders
+const toCommentResponse = ({ deletedAt, ...comment }: CommentRow) => {
+  return deletedAt
+    ? { ...comment, content: null, author: null, deleted: true }
+    : { ...comment, deleted: false };
+};
+
+const parseContent = (value: unknown): string => {
+  const content = typeof value === 'string' ? value.trim() : '';
+  if (!content) {
+    throw new BadRequest('Validation', 'Comment content is required');
+  }
+
+  if (content.length > MAX_COMMENT_LENGTH) {
+    throw new BadRequest('Validation', `Comments must be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  return content;
+};
+
+export const getImageComments = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: imageId } = req.params;
+    const { event } = await getImageAccess(req, imageId);
+
+    // Get pagination parameters from query string
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const whereClause: Prisma.CommentWhereInput = {
+      imageId,
+      parentId: null,
+      OR: [{ deletedAt: null }, { replies: { some: { deletedAt: null } } }],
+    };
+
+    const [totalItems, comments] = await Promise.all([
+      req.prisma!.comment.count({ where: whereClause }),
+      req.prisma!.comment.findMany({
+        where: whereClause,
+        select: {
+          ...commentSelect,
+          _count: { select: { replies: { where: { deletedAt: null } } } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+    ]);
+
+    // Calculate pagination metadata
+    const totalPages = Math.ceil(totalItems / limit);
+
+    new ResponseLib(req, res).json({
+      commentsEnabled: event.allowComments,
+      data: comments.map(({ _count, ...comment }) => ({
+        ...toCommentResponse(comment),
+        replyCount: _count.replies,
+      })),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getCommentReplies = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { commentId } = req.params;
+
+    const parent = await req.prisma?.comment.findUnique({
+      where: { id: commentId },
+      select: { imageId: true },
+    });
+
+    if (!parent) {
+      throw new NotFound('Comment', 'Comment not found');
+    }
+
+    await getImageAccess(req, parent.imageId);
+
+    // Get pagination parameters from query string
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const whereClause: Prisma.CommentWhereInput = { parentId: commentId, deletedAt: null };
+
+    const [totalItems, replies] = await Promise.all([
+      req.prisma!.comment.count({ where: whereClause }),
+      req.prisma!.comment.findMany({
+        where: whereClause,
+        select: commentSelect,
+        orderBy: { createdAt: 'asc' },
+        skip,
+        take: limit,
+      }),
+    ]);
+
+    // Calculate pagination metadata
+    const totalPages = Math.ceil(totalItems / limit);
+
+    new ResponseLib(req, res).json({
+      data: replies.map(toCommentResponse),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createComment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: imageId } = req.params;
+    const { content, parentId }: CreateCommentInput = req.body;
+    const text = parseContent(content);
+
+    const { event, isMember } = await getImageAccess(req, imageId);
+    assertGalleryUnlocked(event);
+
+    if (!event.allowComments) {
+      throw new Forbidden('Access', 'Comments are disabled for this event');
+    }
+
+    if (!isMember) {
+      throw new Forbidden('Access', 'Only event participants can comment');
+    }
+
+    // Replies to a reply are attached to the top-level comment to keep threads one level deep
+    let threadId: string | null = null;
+    if (parentId) {
+      const parent = await req.prisma?.comment.findFirst({
+        where: { id: parentId, imageId },
+        select: { id: true, parentId: true },
+      });
+
+      if (!parent) {
+        throw new NotFound('Comment', 'Parent comment not found');
+      }
+      threadId = parent.parentId || parent.id;
+    }
+
+    const comment = await req.prisma!.comment.create({
+      data: { content: text, imageId, authorId: req.user!.id, parentId: threadId },
+      select: commentSelect,
+    });
+
+    await recordEventActivity(req.prisma!, event.id);
+
+    new ResponseLib(req, res).status(201).json(toCommentResponse(comment));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateComment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { commentId } = req.params;
+    const { content }: UpdateCommentInput = req.body;
+    const text = parseContent(content);
+
+    const comment = await req.prisma?.comment.findFirst({
+      where: { id: commentId, deletedAt: null },
+      select: { authorId: true, imageId: true },
+    });
+
+    if (!comment) {
+      throw new NotFound('Comment', 'Comment not found');
+    }
+
+    if (comment.authorId !== req.user?.id) {
+      throw new Forbidden('Access', 'You can only edit your own comments');
+    }
+
+    const { event } = await getImageAccess(req, comment.imageId);
+    assertGalleryUnlocked(event);
+
+    if (!event.allowComments) {
+      throw new Forbidden('Access', 'Comments are disabled for this event');
+    }
+
+    const updated = await req.prisma!.comment.update({
+      where: { id: commentId },
+      data: { content: text, editedAt: new Date() },
+      select: commentSelect,
+    });
+
+    new ResponseLib(req, res).json(toCommentResponse(updated));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteComment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { commentId } = req.params;
+
+    const comment = await req.prisma?.comment.findFirst({
+      where: { id: commentId, deletedAt: null },
+      select: {
+        authorId: true,
+        imageId: true,
+        _count: { select: { replies: { where: { deletedAt: null } } } },
+      },
+    });
+
+    if (!comment) {
+      throw new NotFound('Comment', 'Comment not found');
+    }
+
+    // Authors can always remove their own comments, even after comments are turned off
+    const { event, access } = await getImageAccess(req, comment.imageId);
+    const canModerate = access?.permissions.includes(EventPermission.MODERATE_MEDIA);
+
+    if (comment.authorId !== req.user?.id && !canModerate) {
+      throw new Forbidden('Access', 'You do not have permission to delete this comment');
+    }
+
+    // Moderators can still clean up comments in a locked gallery
+    if (!canModerate) {
+      assertGalleryUnlocked(event);
+    }
+
+    if (comment._count.replies > 0) {
+      await req.prisma!.comment.update({
+        where: { id: commentId },
+        data: { content: '', deletedAt: new Date() },
+      });
+    } else {
+      await req.prisma!.comment.delete({ where: { id: commentId } });
+    }
+
+    new ResponseLib(req, res).json({ message: 'Comment deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
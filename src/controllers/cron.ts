@@ -0,0 +1,22 @@
+import { NextFunction, Response } from 'express';
+import LoggerLib from '../libs/Logger.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { applyScheduledTransitions } from '../utils/eventLifecycle';
+
+export const runEventTransitions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { started, ended } = await applyScheduledTransitions(req.prisma!);
+    if (started || ended) {
+      LoggerLib.log('Event scheduler', { started, ended });
+    }
+
+    new ResponseLib(req, res).json({ started, ended });
+  } catch (error) {
+    next(error);
+  }
+};
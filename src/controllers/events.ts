@@ -1,9 +1,29 @@
-import { Event, EventVisibility, GalleryStyle, ParticipantStatus, User } from '@prisma/client';
+import { Event, EventStatus, EventVisibility, GalleryStyle, LeaveReason, ParticipantStatus, Prisma, User } from '@prisma/client';
 import { NextFunction, Response } from 'express';
-import { BadRequest, Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
+import { BadRequest, Conflict, Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
 import ResponseLib from '../libs/Response.Lib';
 import { AuthRequest, UploadRequest } from '../types';
-import { getMediaVersions, uploadFile } from '../utils/cloudinary';
+import { getMediaVersions, getStillImageUrl, uploadFile } from '../utils/cloudinary';
+import { assertTransitionAllowed, statusForDates } from '../utils/eventLifecycle';
+import { eventPageArgs, parseEventListQuery, toEventPage } from '../utils/eventListing';
+import { JoinOutcome, joinEventAsUser, notifyWaitlistPromotions, promoteFromWaitlist } from '../utils/eventMembership';
+import { createUniqueJoinCode, hideJoinCodes, normalizeJoinCode } from '../utils/joinCodes';
+import { assertLoginAllowed, recordLoginFailure } from '../utils/loginThrottle';
+import { buildJoinUrl, QrBranding, renderQrPng, renderQrSvg, renderTableCardPdf } from '../utils/qrCode';
+import { getUploadQuota } from '../utils/uploadQuota';
+import { getUploadWindow, MAX_CLOSES_DAYS_AFTER, MAX_OPENS_HOURS_BEFORE } from '../utils/uploadWindow';
+
+const QR_FORMATS = ['png', 'svg', 'pdf'] as const;
+const COVER_FETCH_TIMEOUT_MS = 5000;
+const DEFAULT_REOPEN_HOURS = 24;
+const MAX_REOPEN_HOURS = 24 * 30;
+
+const JOIN_MESSAGES: Record<JoinOutcome, string> = {
+  joined: 'Successfully joined the event',
+  rejoined: 'Successfully rejoined the event',
+  pending: 'Your request to join has been sent to the organizer',
+  waitlisted: 'The event is full, you have been added to the waitlist',
+};
 
 interface CreateEventInput {
   name: string;
@@ -12,25 +32,77 @@ interface CreateEventInput {
   startDate?: string;
   endDate?: string;
   visibility?: EventVisibility;
+  draft?: boolean;
   isPublicGallery?: boolean;
   maxAttendees?: number;
+  enableWaitlist?: boolean;
   maxPhotosPerAttendee?: number;
+  uploadOpensHoursBefore?: number | null;
+  uploadClosesDaysAfter?: number | null;
   galleryStyle?: GalleryStyle;
   features?: string[];
   allowComments?: boolean;
   allowJoining?: boolean;
+  allowGuestUploads?: boolean;
+  requireApproval?: boolean;
   coverImageUrl?: string;
-  joinCode?: string | null;
   joinCodeExpiresAt?: Date | null;
+  joinCodeMaxUses?: number | null;
 }
 
-interface UpdateEventInput extends Partial<Omit<CreateEventInput, 'creatorId' | 'visibility'>> {
+interface UpdateEventInput extends Partial<Omit<CreateEventInput, 'creatorId' | 'visibility' | 'draft'>> {
   visibility?: EventVisibility;
-  joinCode?: string | null;
+  joinCode?: null; // Codes are generated by the server; null removes the event's code
   joinCodeExpiresAt?: Date | null;
+  joinCodeMaxUses?: number | null;
   allowJoining?: boolean;
 }
 
+interface RotateJoinCodeInput {
+  joinCodeExpiresAt?: Date | null;
+  joinCodeMaxUses?: number | null;
+}
+
+const assertValidMaxUses = (joinCodeMaxUses?: number | null) => {
+  if (joinCodeMaxUses !== undefined && joinCodeMaxUses !== null
+    && (!Number.isInteger(joinCodeMaxUses) || joinCodeMaxUses < 1)) {
+    throw new BadRequest('Validation', 'joinCodeMaxUses must be a positive whole number, or null for unlimited');
+  }
+};
+
+const assertValidUploadWindow = (opensHoursBefore?: number | null, closesDaysAfter?: number | null) => {
+  const isValid = (value: number | null | undefined, max: number) =>
+    value === undefined || value === null || (Number.isInteger(value) && value >= 0 && value <= max);
+
+  if (!isValid(opensHoursBefore, MAX_OPENS_HOURS_BEFORE)) {
+    throw new BadRequest('Validation', `uploadOpensHoursBefore must be a whole number from 0 to ${MAX_OPENS_HOURS_BEFORE}, or null`);
+  }
+
+  if (!isValid(closesDaysAfter, MAX_CLOSES_DAYS_AFTER)) {
+    throw new BadRequest('Validation', `uploadClosesDaysAfter must be a whole number from 0 to ${MAX_CLOSES_DAYS_AFTER}, or null`);
+  }
+};
+
+// Only media we host is fetched, so a client-supplied cover URL can't point the server anywhere else
+const fetchCoverImage = async (coverImageUrl: string | null): Promise<Buffer | null> => {
+  if (!coverImageUrl) {
+    return null;
+  }
+
+  try {
+    if (new URL(coverImageUrl).hostname !== 'res.cloudinary.com') {
+      return null;
+    }
+
+    const response = await fetch(getStillImageUrl(coverImageUrl, 1200, 400), {
+      signal: AbortSignal.timeout(COVER_FETCH_TIMEOUT_MS),
+    });
+    return response.ok ? Buffer.from(await response.arrayBuffer()) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
 interface EventWithRelations extends Event {
   creator: Pick<User, 'id' | 'name' | 'avatar'>;
   participants: Array<{
@@ -73,15 +145,21 @@ export const createEvent = async (
       startDate, 
       endDate, 
       visibility, 
+      draft,
       isPublicGallery, 
       maxAttendees, 
+      enableWaitlist,
       maxPhotosPerAttendee, 
+      uploadOpensHoursBefore,
+      uploadClosesDaysAfter,
       galleryStyle, 
       features, 
       allowComments,
       allowJoining,
-      joinCode,
+      allowGuestUploads,
+      requireApproval,
       joinCodeExpiresAt,
+      joinCodeMaxUses,
       coverImageUrl
     }: CreateEventInput = req.body;
     
@@ -92,6 +170,11 @@ export const createEvent = async (
     if (!name) {
       throw new BadRequest('Event name is required');
     }
+    assertValidMaxUses(joinCodeMaxUses);
+    assertValidUploadWindow(uploadOpensHoursBefore, uploadClosesDaysAfter);
+
+    // Events people can join get a server-generated code to share
+    const joinCode = allowJoining || allowGuestUploads ? await createUniqueJoinCode(req.prisma!) : null;
     
     // Create the event
     const event = await req.prisma?.event.create({
@@ -102,15 +185,25 @@ export const createEvent = async (
         startDate: startDate ? new Date(startDate) : null,
         endDate: endDate ? new Date(endDate) : null,
         visibility: visibility !== undefined ? visibility : EventVisibility.PRIVATE,
+        // Drafts stay hidden until published; otherwise the dates decide whether the event is live yet
+        status: draft
+          ? EventStatus.DRAFT
+          : statusForDates(startDate ? new Date(startDate) : null, endDate ? new Date(endDate) : null),
         isPublicGallery: isPublicGallery !== undefined ? isPublicGallery : false,
         maxAttendees: maxAttendees || null,
+        enableWaitlist: enableWaitlist !== undefined ? enableWaitlist : false,
         maxPhotosPerAttendee: maxPhotosPerAttendee || null,
+        uploadOpensHoursBefore,
+        uploadClosesDaysAfter,
         galleryStyle: galleryStyle?.toLocaleUpperCase() as GalleryStyle || GalleryStyle.SCRAPBOOK,
         features: features || [],
         allowComments: allowComments !== undefined ? allowComments : false,
         allowJoining: allowJoining !== undefined ? allowJoining : false,
+        allowGuestUploads: allowGuestUploads !== undefined ? allowGuestUploads : false,
+        requireApproval: requireApproval !== undefined ? requireApproval : false,
         joinCode,
         joinCodeExpiresAt,
+        joinCodeMaxUses,
         coverImageUrl,
         creator: { connect: { id: userId } },
       },
@@ -140,7 +233,7 @@ export const getAllEvents = async (
 ): Promise<void> => {
   try {
     const userId = req.user?.id;
-    const where = userId ? {
+    const visible: Prisma.EventWhereInput = userId ? {
       OR: [
         { isPublicGallery: true },
         { participants: { some: { userId, status: ParticipantStatus.JOINED } } },
@@ -148,11 +241,23 @@ export const getAllEvents = async (
       ]
     } : { isPublicGallery: true };
 
-    const events = await req.prisma?.event.findMany({
-      where,
+    // Drafts only show up for their own organizers
+    const published: Prisma.EventWhereInput = userId ? {
+      OR: [
+        { status: { not: EventStatus.DRAFT } },
+        { creatorId: userId },
+        { participants: { some: { userId, status: ParticipantStatus.JOINED } } }
+      ]
+    } : { status: { not: EventStatus.DRAFT } };
+
+    const listQuery = parseEventListQuery(req.query);
+
+    const events = await req.prisma!.event.findMany({
+      ...await eventPageArgs(req.prisma!, listQuery, { AND: [visible, published] }),
       include: {
         creator: { select: { id: true, name: true, avatar: true } },
         images: { 
+          where: { hiddenAt: null },
           select: { 
             id: true, 
             url: true,
@@ -169,13 +274,12 @@ export const getAllEvents = async (
           } 
         },
       },
-      orderBy: { createdAt: 'desc' },
     });
 
     new ResponseLib(req, res).json({
       status: 'success',
       message: 'Events fetched successfully',
-      data: events
+      ...toEventPage(await hideJoinCodes(req.prisma!, events, userId), listQuery)
     });
   } catch (error) {
     next(error);
@@ -217,12 +321,13 @@ export const getEventById = async (
             createdAt: true,
             uploader: { select: { id: true, name: true } }
           },
+          where: { hiddenAt: null },
           orderBy: { createdAt: 'desc' }
         },
         _count: {
           select: { 
             participants: { where: { status: ParticipantStatus.JOINED } },
-            images: true 
+            images: { where: { hiddenAt: null } }
           }
         }
       },
@@ -232,16 +337,23 @@ export const getEventById = async (
       throw new NotFound('Event', 'Event not found');
     }
 
+    const isCreator = userId === event.creator.id;
+    const isParticipant = event.participants.some(p => p.user.id === userId);
+
+    // Drafts don't exist as far as anyone but their organizers can tell
+    if (event.status === EventStatus.DRAFT && !isCreator && !isParticipant) {
+      throw new NotFound('Event', 'Event not found');
+    }
+
     // Check access permissions based on visibility
-    if (event.visibility === EventVisibility.PRIVATE && !event.isPublicGallery) {  
-      const isCreator = userId === event.creator.id;
-      const isParticipant = event.participants.some(p => p.user.id === userId);
+    if (event.visibility !== EventVisibility.PUBLIC && !event.isPublicGallery) {
       if (!isCreator && !isParticipant) {
         throw new Forbidden('Access denied', 'You do not have permission to view this event');
       }
     }
 
-    return void new ResponseLib(req, res).json(event);
+    const [visibleEvent] = await hideJoinCodes(req.prisma!, [event], userId);
+    return void new ResponseLib(req, res).json({ ...visibleEvent, uploadWindow: getUploadWindow(event) });
   } catch (error) {
     next(error);
   }
@@ -305,22 +417,17 @@ export const updateEvent = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const userId = req.user?.id;
     
-    // Check if the event exists and user has permission to edit
+    // Permission to edit is checked by the route's requireEventPermission middleware
     const existingEvent = await req.prisma?.event.findUnique({
       where: { id },
-      select: { creatorId: true }
+      select: { id: true, joinCode: true, status: true, startDate: true, endDate: true }
     });
     
     if (!existingEvent) {
       throw new NotFound('Event', 'Event not found');
     }
     
-    if (existingEvent.creatorId !== userId) {
-      throw new Forbidden('Access denied', 'Only the event creator can update the event');
-    }
-    
     const {
       name,
       description,
@@ -330,15 +437,42 @@ export const updateEvent = async (
       visibility,
       isPublicGallery,
       maxAttendees,
+      enableWaitlist,
       maxPhotosPerAttendee,
+      uploadOpensHoursBefore,
+      uploadClosesDaysAfter,
       galleryStyle,
       features,
       allowComments,
       allowJoining,
+      allowGuestUploads,
+      requireApproval,
       joinCode,
       joinCodeExpiresAt,
+      joinCodeMaxUses,
       coverImageUrl
     }: UpdateEventInput = req.body; 
+
+    if (joinCode !== undefined && joinCode !== null) {
+      throw new BadRequest('Validation', 'Join codes are generated by the server, use the rotate endpoint to change it');
+    }
+    assertValidMaxUses(joinCodeMaxUses);
+    assertValidUploadWindow(uploadOpensHoursBefore, uploadClosesDaysAfter);
+
+    // Opening an event up without a code gives it one
+    const opensEvent = allowJoining === true || allowGuestUploads === true;
+    const newJoinCode = opensEvent && !existingEvent.joinCode && joinCode !== null
+      ? await createUniqueJoinCode(req.prisma!)
+      : joinCode;
+
+    // New dates move a published event to the status they imply; drafts and archived events keep theirs
+    const nextStartDate = startDate ? new Date(startDate) : existingEvent.startDate;
+    const nextEndDate = endDate ? new Date(endDate) : existingEvent.endDate;
+    const datesChanged = nextStartDate?.getTime() !== existingEvent.startDate?.getTime()
+      || nextEndDate?.getTime() !== existingEvent.endDate?.getTime();
+    const followsDates = ([EventStatus.SCHEDULED, EventStatus.LIVE, EventStatus.ENDED] as EventStatus[])
+      .includes(existingEvent.status);
+    const status = datesChanged && followsDates ? statusForDates(nextStartDate, nextEndDate) : undefined;
     
     const event = await req.prisma?.event.update({
       where: { id },
@@ -349,15 +483,22 @@ export const updateEvent = async (
         startDate: startDate ? new Date(startDate) : undefined,
         endDate: endDate ? new Date(endDate) : undefined,
         visibility: visibility !== undefined ? visibility : undefined,
+        status,
         isPublicGallery: isPublicGallery !== undefined ? isPublicGallery : undefined,
         maxAttendees: maxAttendees !== undefined ? maxAttendees : undefined,
+        enableWaitlist: enableWaitlist !== undefined ? enableWaitlist : undefined,
         maxPhotosPerAttendee: maxPhotosPerAttendee !== undefined ? maxPhotosPerAttendee : undefined,
+        uploadOpensHoursBefore: uploadOpensHoursBefore !== undefined ? uploadOpensHoursBefore : undefined,
+        uploadClosesDaysAfter: uploadClosesDaysAfter !== undefined ? uploadClosesDaysAfter : undefined,
         galleryStyle: galleryStyle !== undefined ? galleryStyle : undefined,
         features: features !== undefined ? features : undefined,
         allowComments: allowComments !== undefined ? allowComments : undefined,
         allowJoining: allowJoining !== undefined ? allowJoining : undefined,
-        joinCode: joinCode !== undefined ? joinCode : undefined,
+        allowGuestUploads: allowGuestUploads !== undefined ? allowGuestUploads : undefined,
+        requireApproval: requireApproval !== undefined ? requireApproval : undefined,
+        joinCode: newJoinCode !== undefined ? newJoinCode : undefined,
         joinCodeExpiresAt: joinCodeExpiresAt !== undefined ? joinCodeExpiresAt : undefined,
+        joinCodeMaxUses: joinCodeMaxUses !== undefined ? joinCodeMaxUses : undefined,
         coverImageUrl: coverImageUrl !== undefined ? coverImageUrl : undefined,
       },
       include: {
@@ -365,6 +506,12 @@ export const updateEvent = async (
         _count: { select: { participants: true, images: true } },
       },
     });
+
+    // Raising or removing the limit frees spots for people on the waitlist
+    if (maxAttendees !== undefined) {
+      const promoted = await req.prisma!.$transaction(tx => promoteFromWaitlist(tx, id));
+      await notifyWaitlistPromotions(req.prisma!, id, promoted);
+    }
     
     return void new ResponseLib(req, res).json({
       status: 'success',
@@ -390,98 +537,311 @@ export const joinEvent = async (
       throw new Unauthorized('Authentication required');
     }
 
-    // First get the event with participant count
-    const eventWithCount = await req.prisma?.event.findUnique({
-      where: { id: eventId },
-      select: {
-        id: true,
-        creatorId: true,
-        allowJoining: true,
-        joinCode: true,
-        maxAttendees: true,
-        _count: {
-          select: {
-            participants: { 
-              where: { 
-                status: 'JOINED' as const
-              } 
-            }
-          }
-        }
-      },
+    const outcome = await req.prisma!.$transaction(tx => joinEventAsUser(tx, eventId, userId, { joinCode }));
+
+    if (outcome === 'pending' || outcome === 'waitlisted') {
+      return void new ResponseLib(req, res).status(202).json({
+        status: outcome,
+        message: JOIN_MESSAGES[outcome],
+      });
+    }
+
+    return void new ResponseLib(req, res).json({
+      status: 'success',
+      message: JOIN_MESSAGES[outcome],
     });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    if (!eventWithCount) {
-      throw new NotFound('Event not found');
+export const joinEventByCode = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { joinCode } = req.body as { joinCode?: string };
+
+    if (!userId) {
+      throw new Unauthorized('Authentication required');
+    }
+    if (!joinCode) {
+      throw new BadRequest('Join code is required');
     }
 
-    // Check existing participation
-    const existingParticipation = await req.prisma?.eventParticipant.findFirst({
-      where: { 
-        eventId,
-        userId,
-      },
-      select: { 
-        id: true, 
-        status: true 
+    // Codes are short, so guessing them is throttled like password attempts
+    const throttleSubject = { ip: req.ip, scope: 'joinCode' as const };
+    await assertLoginAllowed(throttleSubject);
+
+    const event = await req.prisma?.event.findUnique({
+      where: { joinCode: normalizeJoinCode(joinCode) },
+      select: { id: true, name: true },
+    });
+
+    if (!event) {
+      await recordLoginFailure(throttleSubject);
+      throw new NotFound('Event', 'Invalid join code');
+    }
+
+    const outcome = await req.prisma!.$transaction(tx => joinEventAsUser(tx, event.id, userId, { joinCode }));
+    const accepted = outcome === 'pending' || outcome === 'waitlisted';
+
+    return void new ResponseLib(req, res).status(accepted ? 202 : 200).json({
+      status: accepted ? outcome : 'success',
+      message: JOIN_MESSAGES[outcome],
+      event,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const rotateJoinCode = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { joinCodeExpiresAt, joinCodeMaxUses }: RotateJoinCodeInput = req.body;
+    assertValidMaxUses(joinCodeMaxUses);
+
+    // The old code stops working immediately and the usage count starts over
+    const event = await req.prisma?.event.update({
+      where: { id },
+      data: {
+        joinCode: await createUniqueJoinCode(req.prisma!),
+        joinCodeUseCount: 0,
+        joinCodeExpiresAt: joinCodeExpiresAt !== undefined ? joinCodeExpiresAt : undefined,
+        joinCodeMaxUses: joinCodeMaxUses !== undefined ? joinCodeMaxUses : undefined,
       },
+      select: { id: true, joinCode: true, joinCodeExpiresAt: true, joinCodeMaxUses: true, joinCodeUseCount: true },
     });
 
-    if (existingParticipation) {
-      if (existingParticipation.status === 'JOINED') {
-        throw new BadRequest('You are already a participant of this event');
-      }
-      if (existingParticipation.status === 'LEFT') {
-        // Update existing participation
-        await req.prisma?.eventParticipant.update({
-          where: { id: existingParticipation.id },
-          data: { 
-            status: 'JOINED' as const,
-            leftAt: null
-          },
-        });
-        
-        return void new ResponseLib(req, res).json({
-          status: 'success',
-          message: 'Successfully rejoined the event',
-        });
-      }
+    return void new ResponseLib(req, res).json({
+      status: 'success',
+      message: 'Join code rotated successfully',
+      data: event
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateEventStatus = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body as { status?: EventStatus };
+
+    if (!status || !Object.values(EventStatus).includes(status)) {
+      throw new BadRequest('Validation', `Status must be one of: ${Object.values(EventStatus).join(', ')}`);
     }
 
-    // Check if event allows joining
-    if (!eventWithCount.allowJoining && eventWithCount.creatorId !== userId) {
-      throw new Forbidden('This event is not accepting new participants');
+    const existing = await req.prisma?.event.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    if (!existing) {
+      throw new NotFound('Event', 'Event not found');
     }
 
-    // Check join code if required
-    if (eventWithCount.joinCode && eventWithCount.joinCode !== joinCode) {
-      throw new Forbidden('Invalid join code');
+    assertTransitionAllowed(existing.status, status);
+
+    // Only apply the change if nobody (including the scheduler) moved the event meanwhile
+    const { count } = await req.prisma!.event.updateMany({
+      where: { id, status: existing.status },
+      data: { status },
+    });
+
+    if (count === 0) {
+      throw new Conflict('Event', 'The event status changed meanwhile, please try again');
     }
 
-    // Check max attendees if set
-    if (eventWithCount.maxAttendees && eventWithCount._count.participants >= eventWithCount.maxAttendees) {
-      throw new BadRequest('This event has reached maximum capacity');
+    return void new ResponseLib(req, res).json({
+      status: 'success',
+      message: `Event moved from ${existing.status} to ${status}`,
+      data: { id, previousStatus: existing.status, status },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const lockGallery = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Keep the original lock time if the gallery is already locked
+    await req.prisma?.event.updateMany({
+      where: { id, galleryLockedAt: null },
+      data: { galleryLockedAt: new Date(), uploadsReopenedUntil: null },
+    });
+
+    const event = await req.prisma!.event.findUniqueOrThrow({ where: { id } });
+
+    return void new ResponseLib(req, res).json({
+      status: 'success',
+      message: 'Gallery locked, the event is now read-only',
+      uploadWindow: getUploadWindow(event),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unlockGallery = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await req.prisma?.event.update({
+      where: { id },
+      data: { galleryLockedAt: null },
+    });
+
+    return void new ResponseLib(req, res).json({
+      status: 'success',
+      message: 'Gallery unlocked',
+      uploadWindow: getUploadWindow(event!),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reopenUploads = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { hours = DEFAULT_REOPEN_HOURS } = req.body as { hours?: number };
+
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_REOPEN_HOURS) {
+      throw new BadRequest('Validation', `Hours must be a whole number from 1 to ${MAX_REOPEN_HOURS}`);
     }
 
-    // Create new participation
-    await req.prisma?.eventParticipant.create({
-      data: {
-        eventId,
-        userId,
-        status: 'JOINED' as const,
-        role: eventWithCount.creatorId === userId ? 'ADMIN' : 'ATTENDEE',
-      },
+    const existing = await req.prisma?.event.findUnique({
+      where: { id },
+      select: { galleryLockedAt: true },
+    });
+
+    if (!existing) {
+      throw new NotFound('Event', 'Event not found');
+    }
+
+    if (existing.galleryLockedAt) {
+      throw new BadRequest('Event', 'Unlock the gallery before reopening uploads');
+    }
+
+    const event = await req.prisma!.event.update({
+      where: { id },
+      data: { uploadsReopenedUntil: new Date(Date.now() + hours * 60 * 60 * 1000) },
+    });
+
+    return void new ResponseLib(req, res).json({
+      status: 'success',
+      message: `Uploads reopened for ${hours} hour(s)`,
+      uploadWindow: getUploadWindow(event),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const cancelUploadsReopen = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await req.prisma?.event.update({
+      where: { id },
+      data: { uploadsReopenedUntil: null },
     });
 
     return void new ResponseLib(req, res).json({
       status: 'success',
-      message: 'Successfully joined the event',
+      message: 'Uploads follow the event\'s upload window again',
+      uploadWindow: getUploadWindow(event!),
     });
   } catch (error) {
     next(error);
   }
 };
 
+export const getEventQrCode = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const format = ((req.query.format as string) || 'png').toLowerCase() as typeof QR_FORMATS[number];
+    const size = Math.min(Math.max(parseInt(req.query.size as string) || 512, 128), 2048);
+    const branded = req.query.branding !== 'false';
+
+    if (!QR_FORMATS.includes(format)) {
+      throw new BadRequest('Validation', `Format must be one of: ${QR_FORMATS.join(', ')}`);
+    }
+
+    const event = await req.prisma?.event.findUnique({
+      where: { id },
+      select: { name: true, joinCode: true, coverImageUrl: true },
+    });
+
+    if (!event) {
+      throw new NotFound('Event', 'Event not found');
+    }
+
+    if (!event.joinCode) {
+      throw new BadRequest('Event', 'This event has no join code, generate one first');
+    }
+
+    const joinUrl = buildJoinUrl(event.joinCode);
+    const branding: QrBranding = { eventName: event.name };
+    const filename = `event-${id}-join`;
+
+    // Codes are rotated, so a cached image could point at a code that no longer works
+    new ResponseLib(req, res).setHeader({
+      'Cache-Control': 'no-store',
+      'Content-Disposition': `inline; filename="${filename}.${format}"`,
+    });
+
+    if (format === 'pdf') {
+      branding.coverImage = branded ? await fetchCoverImage(event.coverImageUrl) : null;
+      const pdf = await renderTableCardPdf(joinUrl, event.joinCode, branding);
+      return void new ResponseLib(req, res).send(pdf, 'application/pdf');
+    }
+
+    if (format === 'svg') {
+      const svg = await renderQrSvg(joinUrl, event.joinCode, branded ? branding : undefined);
+      return void new ResponseLib(req, res).send(svg, 'image/svg+xml');
+    }
+
+    new ResponseLib(req, res).send(await renderQrPng(joinUrl, size), 'image/png');
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const leaveEvent = async (
   req: AuthRequest,
   res: Response,
@@ -499,28 +859,75 @@ export const leaveEvent = async (
       where: { 
         eventId,
         userId,
-        status: 'JOINED' as const
+        status: { in: [ParticipantStatus.JOINED, ParticipantStatus.WAITLISTED] }
       },
-      select: { id: true }
+      select: { id: true, status: true }
     });
 
     if (!participation) {
       throw new BadRequest('You are not a participant of this event');
     }
 
-    // Mark as left instead of deleting to preserve history
-    await req.prisma?.eventParticipant.update({
-      where: { id: participation.id },
-      data: { 
-        status: 'LEFT' as const,
-        leftAt: new Date()
-      },
+    // Mark as left instead of deleting to preserve history, and hand the spot to the next in line
+    const promoted = await req.prisma!.$transaction(async tx => {
+      await tx.eventParticipant.update({
+        where: { id: participation.id },
+        data: { 
+          status: 'LEFT' as const,
+          leftAt: new Date(),
+          leftReason: participation.status === ParticipantStatus.WAITLISTED ? LeaveReason.LEFT_WAITLIST : LeaveReason.LEFT,
+          waitlistedAt: null
+        },
+      });
+      return promoteFromWaitlist(tx, eventId);
     });
+    await notifyWaitlistPromotions(req.prisma!, eventId, promoted);
 
     return void new ResponseLib(req, res).json({
       status: 'success',
-      message: 'Successfully left the event',
+      message: participation.status === ParticipantStatus.WAITLISTED
+        ? 'Successfully left the waitlist'
+        : 'Successfully left the event',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMyUploadQuota = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new Unauthorized('Authentication required');
+    }
+
+    const event = await req.prisma?.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        maxPhotosPerAttendee: true,
+        participants: {
+          where: { userId, status: ParticipantStatus.JOINED },
+          select: { id: true },
+        },
+      },
     });
+
+    if (!event) {
+      throw new NotFound('Event not found');
+    }
+
+    if (event.participants.length === 0) {
+      throw new Forbidden('You are not a participant of this event');
+    }
+
+    new ResponseLib(req, res).json(await getUploadQuota(req.prisma!, event, { userId }));
   } catch (error) {
     next(error);
   }
@@ -545,12 +952,11 @@ export const uploadEventCoverImage = async (
       throw new Unauthorized('Auth', 'Authentication required');
     }
 
-    // Check if event exists and user is the creator
+    // Permission to change the cover is checked by the route's requireEventPermission middleware
     const event = await req.prisma?.event.findUnique({
       where: { id: eventId },
       select: {
         id: true,
-        creatorId: true,
       },
     });
 
@@ -558,11 +964,6 @@ export const uploadEventCoverImage = async (
       throw new NotFound('Event', 'Event not found');
     }
 
-    // Only the event creator can update the cover image
-    if (event.creatorId !== userId) {
-      throw new Forbidden('Access', 'Only the event creator can update the cover media');
-    }
-
     // Determine media type
     const mediaType = req.file.mimetype.startsWith('video/') ? 'video' : 'image';
 
@@ -608,8 +1009,10 @@ export const getUserEvents = async (
       throw new Unauthorized('Authentication required');
     }
 
-    const events = await req.prisma?.event.findMany({
-      where: {
+    const listQuery = parseEventListQuery(req.query);
+
+    const events = await req.prisma!.event.findMany({
+      ...await eventPageArgs(req.prisma!, listQuery, {
         OR: [
           { creatorId: userId },
           { 
@@ -621,7 +1024,7 @@ export const getUserEvents = async (
             } 
           }
         ]
-      },
+      }),
       include: {
         creator: { 
           select: { 
@@ -644,6 +1047,7 @@ export const getUserEvents = async (
           }
         },
         images: { 
+          where: { hiddenAt: null },
           select: { 
             id: true, 
             url: true 
@@ -657,14 +1061,12 @@ export const getUserEvents = async (
           } 
         },
       },
-      orderBy: { 
-        createdAt: 'desc' 
-      },
     });
 
-    // Separate events into created and joined
-    const createdEvents = events?.filter(event => event.creatorId === userId);
-    const joinedEvents = events?.filter(event => event.creatorId !== userId);
+    // Separate the page's events into created and joined
+    const { data, pagination } = toEventPage(await hideJoinCodes(req.prisma!, events, userId), listQuery);
+    const createdEvents = data.filter(event => event.creatorId === userId);
+    const joinedEvents = data.filter(event => event.creatorId !== userId);
 
     return void new ResponseLib(req, res).json({
       status: 'success',
@@ -672,7 +1074,8 @@ export const getUserEvents = async (
       data: {
         created: createdEvents,
         joined: joinedEvents
-      }
+      },
+      pagination
     });
   } catch (error) {
     next(error);
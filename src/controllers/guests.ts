@@ -0,0 +1,197 @@
+import { NextFunction, Response } from 'express';
+import ErrorLib, { BadRequest, Conflict, Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { assertJoinableStatus } from '../utils/eventLifecycle';
+import { joinEventAsUser } from '../utils/eventMembership';
+import { signGuestToken, verifyGuestToken } from '../utils/guest';
+import { consumeJoinCodeUse, joinCodeUnusableReason, normalizeJoinCode } from '../utils/joinCodes';
+import { assertLoginAllowed, recordLoginFailure } from '../utils/loginThrottle';
+import { getUploadQuota } from '../utils/uploadQuota';
+import { getUploadWindow } from '../utils/uploadWindow';
+
+const MAX_DISPLAY_NAME_LENGTH = 60;
+
+interface CreateGuestSessionInput {
+  joinCode: string;
+  displayName: string;
+}
+
+interface ClaimGuestInput {
+  guestToken: string;
+}
+
+export const createGuestSession = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { joinCode, displayName }: CreateGuestSessionInput = req.body;
+    const name = displayName?.trim();
+
+    if (!joinCode || !name) {
+      throw new BadRequest('Validation', 'Join code and display name are required');
+    }
+
+    if (name.length > MAX_DISPLAY_NAME_LENGTH) {
+      throw new BadRequest('Validation', `Display name must be at most ${MAX_DISPLAY_NAME_LENGTH} characters`);
+    }
+
+    // Join codes are short, so guessing them is throttled like password attempts
+    const throttleSubject = { ip: req.ip, scope: 'joinCode' as const };
+    await assertLoginAllowed(throttleSubject);
+
+    const event = await req.prisma?.event.findUnique({
+      where: { joinCode: normalizeJoinCode(joinCode) },
+      select: {
+        id: true,
+        name: true,
+        allowGuestUploads: true,
+        joinCodeExpiresAt: true,
+        joinCodeMaxUses: true,
+        joinCodeUseCount: true,
+        status: true,
+      },
+    });
+
+    if (!event) {
+      await recordLoginFailure(throttleSubject);
+      throw new NotFound('Event', 'Invalid join code');
+    }
+
+    assertJoinableStatus(event.status);
+
+    const reason = joinCodeUnusableReason(event);
+    if (reason) {
+      throw new Forbidden('Access', reason);
+    }
+
+    if (!event.allowGuestUploads) {
+      throw new Forbidden('Access', 'This event does not allow guest access');
+    }
+
+    if (!(await consumeJoinCodeUse(req.prisma!, event.id))) {
+      throw new Forbidden('Access', 'This join code has reached its usage limit');
+    }
+
+    const guest = await req.prisma!.eventGuest.create({
+      data: { eventId: event.id, displayName: name },
+      select: { id: true, eventId: true, displayName: true, createdAt: true },
+    });
+
+    new ResponseLib(req, res).status(201).json({
+      guest,
+      event: { id: event.id, name: event.name },
+      ...signGuestToken(guest),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getGuestSession = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const guestId = req.guest?.gid;
+    if (!guestId) {
+      throw new Unauthorized('Auth', 'Guest authentication required');
+    }
+
+    const guest = await req.prisma?.eventGuest.findUnique({
+      where: { id: guestId },
+      select: {
+        id: true,
+        displayName: true,
+        createdAt: true,
+        event: {
+          select: {
+            id: true,
+            name: true,
+            allowGuestUploads: true,
+            maxPhotosPerAttendee: true,
+            startDate: true,
+            endDate: true,
+            uploadOpensHoursBefore: true,
+            uploadClosesDaysAfter: true,
+            uploadsReopenedUntil: true,
+            galleryLockedAt: true,
+          },
+        },
+        _count: { select: { images: true } },
+      },
+    });
+
+    if (!guest) {
+      throw new NotFound('Guest', 'Guest not found');
+    }
+
+    new ResponseLib(req, res).json({
+      ...guest,
+      quota: await getUploadQuota(req.prisma!, guest.event, { guestId: guest.id }),
+      uploadWindow: getUploadWindow(guest.event),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const claimGuest = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { guestToken }: ClaimGuestInput = req.body;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    if (!guestToken) {
+      throw new BadRequest('Validation', 'Guest token is required');
+    }
+
+    const { gid, eventId } = verifyGuestToken(guestToken);
+
+    const { claimedImages, joinStatus, joinError } = await req.prisma!.$transaction(async tx => {
+      // Conditional update so a guest identity can only ever be claimed once
+      const { count } = await tx.eventGuest.updateMany({
+        where: { id: gid, claimedAt: null, revokedAt: null },
+        data: { claimedById: userId, claimedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new Conflict('Guest', 'This guest identity can no longer be claimed');
+      }
+
+      const images = await tx.image.updateMany({
+        where: { guestId: gid, uploaderId: null },
+        data: { uploaderId: userId },
+      });
+
+      // The guest was already admitted with the join code, which counts like an invitation. Capacity, bans and the
+      // event's status still apply, and the uploads are claimed even when the user can't join.
+      try {
+        const outcome = await joinEventAsUser(tx, eventId, userId, { invited: true });
+        return { claimedImages: images.count, joinStatus: outcome, joinError: undefined };
+      } catch (error) {
+        if (!(error instanceof ErrorLib)) throw error;
+        return { claimedImages: images.count, joinStatus: undefined, joinError: error.message };
+      }
+    });
+
+    new ResponseLib(req, res).json({
+      message: 'Guest uploads claimed successfully',
+      eventId,
+      claimedImages,
+      joinStatus,
+      joinError,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
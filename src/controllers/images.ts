@@ -1,15 +1,27 @@
-import { EventVisibility, ParticipantStatus } from '@prisma/client';
+import { EventStatus, EventVisibility, ParticipantStatus, Prisma } from '@prisma/client';
 import { NextFunction, Response } from 'express';
 import { BadRequest, Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
 import ResponseLib from '../libs/Response.Lib';
 import { UploadRequest } from '../types';
 import { deleteFile, getMediaVersions, uploadFile } from '../utils/cloudinary';
+import { recordEventActivity } from '../utils/eventListing';
+import { EventPermission, hasEventPermission } from '../utils/permissions';
+import { getReactionSummaries } from '../utils/reactions';
+import { extractHashtags, normalizeTag, syncHashtags, tagSelect, toTagNames } from '../utils/tags';
+import { assertQuotaAvailable, getUploadQuota, reserveUploadSlot, Uploader } from '../utils/uploadQuota';
+import { assertGalleryUnlocked, assertUploadsOpen } from '../utils/uploadWindow';
+
+const MEDIA_SORTS = ['recent', 'loved'] as const;
 
 interface UploadImageInput {
   eventId: string;
   description?: string;
 }
 
+interface UpdateImageInput {
+  description: string;
+}
+
 export const uploadImageToEvent = async (
   req: UploadRequest,
   res: Response,
@@ -20,13 +32,20 @@ export const uploadImageToEvent = async (
       throw new BadRequest('Upload', 'No media file provided');
     }
 
-    const { eventId, description }: UploadImageInput = req.body;
+    const { eventId: requestedEventId, description }: UploadImageInput = req.body;
     const userId = req.user?.id;
+    const guest = req.guest;
+    // Guest tokens are scoped to a single event
+    const eventId = guest ? guest.eventId : requestedEventId;
     
-    if (!userId) {
+    if (!userId && !guest) {
       throw new Unauthorized('Auth', 'Authentication required');
     }
 
+    if (guest && requestedEventId && requestedEventId !== guest.eventId) {
+      throw new Forbidden('Access', 'Guests can only upload to the event they joined');
+    }
+
     // Check if event exists and user is a participant
     const event = await req.prisma?.event.findUnique({
       where: { id: eventId }
@@ -36,18 +55,40 @@ export const uploadImageToEvent = async (
       throw new NotFound('Event', 'Event not found');
     }
     
-    // Check if user is a participant with JOINED status
-    const isParticipant = await req.prisma?.eventParticipant.findFirst({
-      where: {
-        eventId,
-        userId,
-        status: ParticipantStatus.JOINED
+    if (guest) {
+      if (!event.allowGuestUploads) {
+        throw new Forbidden('Access', 'This event is not accepting guest uploads');
       }
-    });
+    } else {
+      // Check if user is a participant with JOINED status
+      const isParticipant = await req.prisma?.eventParticipant.findFirst({
+        where: {
+          eventId,
+          userId,
+          status: ParticipantStatus.JOINED
+        }
+      });
 
-    if (!isParticipant) {
-      throw new Forbidden('Access', 'You must be a participant to upload media to this event');
+      if (!isParticipant) {
+        throw new Forbidden('Access', 'You must be a participant to upload media to this event');
+      }
+    }
+
+    // Fail fast before uploading; the limit is enforced again under a lock when saving
+    const uploader: Uploader = guest ? { guestId: guest.gid } : { userId: userId! };
+    const quota = await getUploadQuota(req.prisma!, event, uploader);
+
+    if (event.status === EventStatus.ARCHIVED) {
+      throw new Forbidden('Access', 'This event has been archived');
+    }
+
+    // Organizers can still add media outside the upload window, but nobody can change a locked gallery
+    if (quota.exempt) {
+      assertGalleryUnlocked(event);
+    } else {
+      assertUploadsOpen(event);
     }
+    assertQuotaAvailable(quota);
 
     // Determine media type
     const mediaType = req.file.mimetype.startsWith('video/') ? 'video' : 'image';
@@ -62,38 +103,58 @@ export const uploadImageToEvent = async (
     // Get different versions of the media
     const versions = getMediaVersions(result.secure_url, mediaType);
     
-    // Save media info to database
-    const image = await req.prisma?.image.create({
-      data: {
-        url: result.secure_url,
-        publicId: result.public_id,
-        mediaType,
-        description: description || '',
-        uploader: {
-          connect: { id: userId },
-        },
-        event: {
-          connect: { id: eventId },
+    // Save media info to database, removing the upload again if the quota ran out meanwhile
+    const image = await req.prisma!.$transaction(async tx => {
+      await reserveUploadSlot(tx, eventId, uploader, quota.limit);
+      const created = await tx.image.create({
+        data: {
+          url: result.secure_url,
+          publicId: result.public_id,
+          mediaType,
+          description: description || '',
+          ...(guest
+            ? { guest: { connect: { id: guest.gid } } }
+            : { uploader: { connect: { id: userId } } }),
+          event: {
+            connect: { id: eventId },
+          },
         },
-      },
-      include: {
-        uploader: {
-          select: {
-            id: true,
-            name: true,
-            avatar: true,
+        include: {
+          uploader: {
+            select: {
+              id: true,
+              name: true,
+              avatar: true,
+            },
+          },
+          guest: {
+            select: {
+              id: true,
+              displayName: true,
+            },
           },
         },
-      },
+      });
+
+      await syncHashtags(tx, created.id, created.description, userId);
+      return created;
+    }).catch(async error => {
+      await deleteFile(result.public_id, mediaType);
+      throw error;
     });
 
+    await recordEventActivity(req.prisma!, eventId);
+
     new ResponseLib(req, res).status(201).json({
-      id: image?.id,
-      url: image?.url,
+      id: image.id,
+      url: image.url,
       versions,
       mediaType,
-      description: image?.description,
-      uploader: image?.uploader,
+      description: image.description,
+      tags: extractHashtags(image.description),
+      uploader: image.uploader,
+      guest: image.guest,
+      quota: await getUploadQuota(req.prisma!, event, uploader),
       message: `${mediaType} uploaded successfully`,
     });
   } catch (error) {
@@ -127,7 +188,7 @@ export const getEventImages = async (
 
     // Get images for the event
     const images = await req.prisma?.image.findMany({
-      where: { eventId },
+      where: { eventId, hiddenAt: null },
       include: {
         uploader: {
           select: {
@@ -136,13 +197,17 @@ export const getEventImages = async (
             avatar: true,
           },
         },
+        _count: {
+          select: { comments: { where: { deletedAt: null } } },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
 
-    // Add versions for each media
-    const imagesWithVersions = images?.map(image => ({
+    // Add versions and comment counts for each media
+    const imagesWithVersions = images?.map(({ _count, ...image }) => ({
       ...image,
+      commentCount: _count.comments,
       versions: getMediaVersions(image.url, image.mediaType as 'image' | 'video'),
     }));
 
@@ -171,24 +236,27 @@ export const deleteImageById = async (
     // Find the image and check ownership
     const image = await req.prisma?.image.findUnique({
       where: { id },
-      include: {
-        event: {
-          select: {
-            creatorId: true,
-          },
-        },
-      },
+      include: { event: { select: { galleryLockedAt: true } } },
     });
 
     if (!image) {
       throw new NotFound('Image', 'Image not found');
     }
 
-    // Only allow the uploader or event creator to delete
-    if (image.uploaderId !== userId && image.event?.creatorId !== userId) {
+    // Only allow the uploader or someone who moderates the event's media to delete
+    const canModerate = image.eventId
+      ? await hasEventPermission(req.prisma!, image.eventId, userId, EventPermission.MODERATE_MEDIA)
+      : false;
+
+    if (image.uploaderId !== userId && !canModerate) {
       throw new Forbidden('Access', 'You do not have permission to delete this media');
     }
 
+    // Moderators can still take media down from a locked gallery
+    if (image.event && !canModerate) {
+      assertGalleryUnlocked(image.event);
+    }
+
     // Delete from Cloudinary
     await deleteFile(image.publicId, image.mediaType as 'image' | 'video');
 
@@ -205,6 +273,67 @@ export const deleteImageById = async (
   }
 };
 
+export const updateImage = async (
+  req: UploadRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { description }: UpdateImageInput = req.body;
+    const userId = req.user?.id;
+    const guestId = req.guest?.gid;
+
+    if (!userId && !guestId) {
+      throw new Unauthorized('Auth', 'Authentication required');
+    }
+
+    if (typeof description !== 'string') {
+      throw new BadRequest('Validation', 'Description is required');
+    }
+
+    const image = await req.prisma?.image.findUnique({
+      where: { id },
+      include: { event: { select: { galleryLockedAt: true } } },
+    });
+
+    if (!image) {
+      throw new NotFound('Image', 'Image not found');
+    }
+
+    // Guests edit what they uploaded as that guest; once claimed, the media belongs to the user
+    const isUploader = userId ? image.uploaderId === userId : !image.uploaderId && image.guestId === guestId;
+    if (!isUploader) {
+      throw new Forbidden('Access', 'You can only edit your own media');
+    }
+
+    if (image.event) {
+      assertGalleryUnlocked(image.event);
+    }
+
+    // Hashtags follow the new description, so removed ones drop off and new ones are added
+    const updated = await req.prisma!.$transaction(async tx => {
+      await tx.image.update({
+        where: { id },
+        data: { description: description.trim() },
+      });
+      await syncHashtags(tx, id, description, userId);
+
+      return tx.image.findUniqueOrThrow({
+        where: { id },
+        select: { id: true, description: true, tags: tagSelect },
+      });
+    });
+
+    new ResponseLib(req, res).json({
+      ...updated,
+      tags: toTagNames(updated.tags),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getRecentImages = async (
   req: UploadRequest,
   res: Response,
@@ -219,6 +348,7 @@ export const getRecentImages = async (
     
     // Build where clause based on user authentication
     const whereClause = userId ? {
+      hiddenAt: null,
       OR: [
         { event: { isPublicGallery: true } },
         { event: { participants: { some: { id: userId } } } },
@@ -226,6 +356,7 @@ export const getRecentImages = async (
         { uploaderId: userId }
       ]
     } : {
+      hiddenAt: null,
       event: { isPublicGallery: true }
     };
 
@@ -259,9 +390,12 @@ export const getRecentImages = async (
       },
     });
 
-    // Add versions for each media item
+    const reactions = await getReactionSummaries(req.prisma!, images?.map(image => image.id) || [], userId);
+
+    // Add versions and reactions for each media item
     const imagesWithVersions = images?.map(image => ({
       ...image,
+      reactions: reactions.get(image.id),
       versions: getMediaVersions(image.url, image.mediaType as 'image' | 'video'),
     }));
 
@@ -294,11 +428,26 @@ export const getEventMedia = async (
   try {
     const { eventId } = req.params;
     const userId = req.user?.id;
+    const guest = req.guest;
 
     // Get pagination parameters from query string
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
     const skip = (page - 1) * limit;
+    const sort = (req.query.sort as typeof MEDIA_SORTS[number]) || 'recent';
+    const tag = req.query.tag ? normalizeTag(req.query.tag) : undefined;
+
+    if (!MEDIA_SORTS.includes(sort)) {
+      throw new BadRequest('Validation', `Sort must be one of: ${MEDIA_SORTS.join(', ')}`);
+    }
+
+    if (tag === null) {
+      throw new BadRequest('Validation', 'Invalid tag');
+    }
+
+    if (guest && guest.eventId !== eventId) {
+      throw new Forbidden('Access', 'Guests can only view the event they joined');
+    }
 
     // Check if event exists and user has access
     const event = await req.prisma?.event.findUnique({
@@ -308,9 +457,6 @@ export const getEventMedia = async (
         visibility: true,
         isPublicGallery: true,
         creatorId: true,
-        _count: {
-          select: { images: true }
-        }
       },
     });
 
@@ -319,7 +465,7 @@ export const getEventMedia = async (
     }
 
     // Check access permissions
-    if (event.visibility === EventVisibility.PRIVATE && !event.isPublicGallery) {
+    if (!guest && event.visibility !== EventVisibility.PUBLIC && !event.isPublicGallery) {
       const isCreator = userId === event.creatorId;
       
       // Check if user is a participant
@@ -336,9 +482,19 @@ export const getEventMedia = async (
       }
     }
 
+    // A tag narrows the gallery down to a sub-gallery
+    const whereClause: Prisma.ImageWhereInput = {
+      eventId,
+      hiddenAt: null,
+      ...(tag && { tags: { some: { tag: { name: tag } } } }),
+    };
+
+    // Get total count for pagination
+    const totalItems = await req.prisma!.image.count({ where: whereClause });
+
     // Fetch paginated media
     const media = await req.prisma?.image.findMany({
-      where: { eventId },
+      where: whereClause,
       select: { 
         id: true, 
         url: true, 
@@ -351,21 +507,38 @@ export const getEventMedia = async (
             name: true,
             avatar: true
           } 
-        } 
+        },
+        guest: {
+          select: {
+            id: true,
+            displayName: true
+          }
+        },
+        tags: tagSelect,
+        _count: {
+          select: { comments: { where: { deletedAt: null } } }
+        }
       },
-      orderBy: { createdAt: 'desc' },
+      // Most loved puts the most reacted-to media first, newest first among ties
+      orderBy: sort === 'loved'
+        ? [{ reactions: { _count: 'desc' } }, { createdAt: 'desc' }]
+        : { createdAt: 'desc' },
       skip,
       take: limit,
     });
 
-    // Add versions for each media item
-    const mediaWithVersions = media?.map(item => ({
+    const reactions = await getReactionSummaries(req.prisma!, media?.map(item => item.id) || [], userId);
+
+    // Add versions, tags, comment counts and reactions for each media item
+    const mediaWithVersions = media?.map(({ _count, tags, ...item }) => ({
       ...item,
+      tags: toTagNames(tags),
+      commentCount: _count.comments,
+      reactions: reactions.get(item.id),
       versions: getMediaVersions(item.url, item.mediaType as 'image' | 'video'),
     }));
 
     // Calculate pagination metadata
-    const totalItems = event._count?.images || 0;
     const totalPages = Math.ceil(totalItems / limit);
     const hasNextPage = page < totalPages;
     const hasPreviousPage = page > 1;
@@ -391,6 +564,7 @@ interface GalleryFilters {
   endDate?: Date;
   eventId?: string;
   mediaType?: 'image' | 'video' | 'all';
+  tag?: string;
 }
 
 // interface GallerySort {
@@ -420,8 +594,13 @@ export const getUserGallery = async (
       endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
       eventId: req.query.eventId as string,
       mediaType: req.query.mediaType as 'image' | 'video' | 'all',
+      tag: req.query.tag ? normalizeTag(req.query.tag) || undefined : undefined,
     };
 
+    if (req.query.tag && !filters.tag) {
+      throw new BadRequest('Validation', 'Invalid tag');
+    }
+
     // Get sort parameters
     const sortField = (req.query.sortField as 'createdAt' | 'eventDate') || 'createdAt';
     const sortOrder = (req.query.sortOrder as 'asc' | 'desc') || 'desc';
@@ -439,6 +618,10 @@ export const getUserGallery = async (
       whereClause.mediaType = filters.mediaType;
     }
 
+    if (filters.tag) {
+      whereClause.tags = { some: { tag: { name: filters.tag } } };
+    }
+
     if (filters.startDate || filters.endDate) {
       whereClause.createdAt = {};
       if (filters.startDate) {
@@ -481,15 +664,17 @@ export const getUserGallery = async (
             avatar: true,
           },
         },
+        tags: tagSelect,
       },
       orderBy,
       skip,
       take: limit,
     });
 
-    // Add versions for each media item
-    const mediaWithVersions = media?.map(item => ({
+    // Add versions and tags for each media item
+    const mediaWithVersions = media?.map(({ tags, ...item }) => ({
       ...item,
+      tags: toTagNames(tags),
       versions: getMediaVersions(item.url, item.mediaType as 'image' | 'video'),
     }));
 
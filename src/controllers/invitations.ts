@@ -0,0 +1,308 @@
+import { EventInvitation } from '@prisma/client';
+import { NextFunction, Response } from 'express';
+import { BadRequest, Conflict, Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { joinEventAsUser } from '../utils/eventMembership';
+import { buildAppUrl, sendMail } from '../utils/mailer';
+import { generateToken, hashToken } from '../utils/session';
+
+const INVITATION_TTL_DAYS = parseInt(process.env.INVITATION_TTL_DAYS as string) || 14;
+const MAX_EMAILS_PER_REQUEST = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface EmailInvitationsInput {
+  emails: string[];
+  expiresInDays?: number;
+}
+
+interface InvitationLinkInput {
+  maxUses?: number | null;
+  expiresInDays?: number;
+}
+
+interface AcceptInvitationInput {
+  token: string;
+}
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  maxUses: true,
+  useCount: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, name: true } },
+};
+
+const expiryFromDays = (expiresInDays?: number): Date => {
+  if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1)) {
+    throw new BadRequest('Validation', 'expiresInDays must be a positive whole number');
+  }
+  return new Date(Date.now() + (expiresInDays || INVITATION_TTL_DAYS) * 24 * 60 * 60 * 1000);
+};
+
+// Why an invitation can no longer be used, if it can't
+const unusableReason = (invitation: Pick<EventInvitation, 'revokedAt' | 'expiresAt' | 'maxUses' | 'useCount'>) => {
+  if (invitation.revokedAt) return 'This invitation has been revoked';
+  if (invitation.expiresAt && invitation.expiresAt < new Date()) return 'This invitation has expired';
+  if (invitation.maxUses !== null && invitation.useCount >= invitation.maxUses) return 'This invitation has already been used';
+  return null;
+};
+
+export const createEmailInvitations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const { emails, expiresInDays }: EmailInvitationsInput = req.body;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    if (!Array.isArray(emails) || emails.length === 0) {
+      throw new BadRequest('Validation', 'At least one email is required');
+    }
+
+    if (emails.length > MAX_EMAILS_PER_REQUEST) {
+      throw new BadRequest('Validation', `At most ${MAX_EMAILS_PER_REQUEST} emails can be invited at once`);
+    }
+
+    const addresses = Array.from(new Set(emails.map(email => String(email).trim().toLowerCase())));
+    const invalid = addresses.filter(email => !EMAIL_PATTERN.test(email));
+    if (invalid.length > 0) {
+      throw new BadRequest('Validation', `Invalid email addresses: ${invalid.join(', ')}`);
+    }
+
+    const event = await req.prisma?.event.findUnique({
+      where: { id: eventId },
+      select: { name: true, creator: { select: { name: true } } },
+    });
+
+    if (!event) {
+      throw new NotFound('Event', 'Event not found');
+    }
+
+    const expiresAt = expiryFromDays(expiresInDays);
+
+    // Re-inviting an address replaces its pending invitation
+    await req.prisma?.eventInvitation.updateMany({
+      where: { eventId, email: { in: addresses }, revokedAt: null, useCount: 0 },
+      data: { revokedAt: new Date() },
+    });
+
+    const invitations = [];
+    for (const email of addresses) {
+      const token = generateToken(24);
+      invitations.push(await req.prisma!.eventInvitation.create({
+        data: { eventId, invitedById: userId, email, tokenHash: hashToken(token), maxUses: 1, expiresAt },
+        select: invitationSelect,
+      }));
+
+      const inviteUrl = buildAppUrl('/invitations', { token });
+      await sendMail({
+        to: email,
+        subject: `You're invited to ${event.name} on Moments`,
+        text: `Hi,\n\n${event.creator.name} invited you to join ${event.name} and share your photos.\n\nAccept the invitation here:\n\n${inviteUrl}\n\nThis invitation expires on ${expiresAt.toUTCString()}.`,
+      });
+    }
+
+    new ResponseLib(req, res).status(201).json({ data: invitations });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createInvitationLink = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const { maxUses = 1, expiresInDays }: InvitationLinkInput = req.body;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+      throw new BadRequest('Validation', 'maxUses must be a positive whole number, or null for unlimited');
+    }
+
+    const token = generateToken(24);
+    const invitation = await req.prisma?.eventInvitation.create({
+      data: {
+        eventId,
+        invitedById: userId,
+        tokenHash: hashToken(token),
+        maxUses,
+        expiresAt: expiryFromDays(expiresInDays),
+      },
+      select: invitationSelect,
+    });
+
+    // The link can't be rebuilt later since only the token hash is stored
+    new ResponseLib(req, res).status(201).json({
+      ...invitation,
+      inviteUrl: buildAppUrl('/invitations', { token }),
+      token,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getEventInvitations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+
+    const invitations = await req.prisma?.eventInvitation.findMany({
+      where: { eventId },
+      select: invitationSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    new ResponseLib(req, res).json({ data: invitations });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeInvitation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId, invitationId } = req.params;
+
+    const { count } = await req.prisma!.eventInvitation.updateMany({
+      where: { id: invitationId, eventId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new NotFound('Invitation', 'Invitation not found');
+    }
+
+    new ResponseLib(req, res).json({ message: 'Invitation revoked successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getInvitation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Taken from the query string, which the request logs redact, rather than the path
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    if (!token) {
+      throw new BadRequest('Validation', 'Token is required');
+    }
+
+    const invitation = await req.prisma?.eventInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: {
+        email: true,
+        maxUses: true,
+        useCount: true,
+        expiresAt: true,
+        revokedAt: true,
+        invitedBy: { select: { name: true } },
+        event: { select: { id: true, name: true, description: true, startDate: true, coverImageUrl: true } },
+      },
+    });
+
+    if (!invitation) {
+      throw new NotFound('Invitation', 'Invitation not found');
+    }
+
+    const reason = unusableReason(invitation);
+
+    new ResponseLib(req, res).json({
+      event: invitation.event,
+      invitedBy: invitation.invitedBy,
+      email: invitation.email,
+      expiresAt: invitation.expiresAt,
+      valid: reason === null,
+      reason,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const acceptInvitation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { token }: AcceptInvitationInput = req.body;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    if (!token) {
+      throw new BadRequest('Validation', 'Token is required');
+    }
+
+    const invitation = await req.prisma?.eventInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!invitation) {
+      throw new NotFound('Invitation', 'Invitation not found');
+    }
+
+    const reason = unusableReason(invitation);
+    if (reason) {
+      throw new BadRequest('Invitation', reason);
+    }
+
+    if (invitation.email) {
+      // Read the address from the database since it may have changed since the token was issued
+      const user = await req.prisma?.user.findUnique({ where: { id: userId }, select: { email: true } });
+      if (invitation.email !== user?.email.toLowerCase()) {
+        throw new Forbidden('Invitation', 'This invitation was sent to a different email address');
+      }
+    }
+
+    const outcome = await req.prisma!.$transaction(async tx => {
+      // Only counts the use if nobody else used the invitation in the meantime
+      const { count } = await tx.eventInvitation.updateMany({
+        where: { id: invitation.id, useCount: invitation.useCount, revokedAt: null },
+        data: { useCount: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        throw new Conflict('Invitation', 'The invitation was just used, please try again');
+      }
+
+      return joinEventAsUser(tx, invitation.eventId, userId, { invited: true });
+    });
+
+    new ResponseLib(req, res).status(outcome === 'waitlisted' ? 202 : 200).json({
+      status: outcome,
+      message: outcome === 'waitlisted'
+        ? 'The event is full, you have been added to the waitlist'
+        : outcome === 'rejoined' ? 'Successfully rejoined the event' : 'Successfully joined the event',
+      eventId: invitation.eventId,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,170 @@
+import { ParticipantStatus } from '@prisma/client';
+import { NextFunction, Response } from 'express';
+import { BadRequest, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { getWaitlistPosition, JoinRequestDecision, reviewJoinRequests } from '../utils/eventMembership';
+
+const MAX_BULK_REQUESTS = 100;
+
+interface BulkReviewInput {
+  userIds: string[];
+  action: JoinRequestDecision;
+}
+
+export const getJoinRequests = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+
+    const requests = await req.prisma?.eventParticipant.findMany({
+      where: { eventId, status: ParticipantStatus.PENDING },
+      select: {
+        id: true,
+        joinedAt: true,
+        user: { select: { id: true, name: true, email: true, avatar: true } },
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    new ResponseLib(req, res).json({
+      count: requests?.length || 0,
+      data: requests?.map(({ joinedAt, ...request }) => ({ ...request, requestedAt: joinedAt })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Shared by the approve and decline endpoints for a single request
+const reviewSingleRequest = (decision: JoinRequestDecision) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId, userId } = req.params;
+
+    const { updated, waitlisted } = await reviewJoinRequests(req.prisma!, eventId, [userId], decision);
+
+    if (updated.length === 0) {
+      const pending = await req.prisma?.eventParticipant.findFirst({
+        where: { eventId, userId, status: ParticipantStatus.PENDING },
+        select: { id: true },
+      });
+      if (!pending) {
+        throw new NotFound('Request', 'Join request not found');
+      }
+      throw new BadRequest('Event', 'This event has reached maximum capacity');
+    }
+
+    new ResponseLib(req, res).json({
+      message: decision === 'decline'
+        ? 'Join request declined'
+        : waitlisted.length > 0 ? 'Join request approved, the user is on the waitlist' : 'Join request approved',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const approveJoinRequest = reviewSingleRequest('approve');
+
+export const declineJoinRequest = reviewSingleRequest('decline');
+
+export const reviewJoinRequestsBulk = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const { userIds, action }: BulkReviewInput = req.body;
+
+    if (action !== 'approve' && action !== 'decline') {
+      throw new BadRequest('Validation', 'Action must be approve or decline');
+    }
+
+    if (!Array.isArray(userIds) || userIds.length === 0) {
+      throw new BadRequest('Validation', 'At least one user id is required');
+    }
+
+    if (userIds.length > MAX_BULK_REQUESTS) {
+      throw new BadRequest('Validation', `At most ${MAX_BULK_REQUESTS} requests can be reviewed at once`);
+    }
+
+    const { updated, waitlisted, skipped } = await reviewJoinRequests(req.prisma!, eventId, userIds, action);
+
+    new ResponseLib(req, res).json({
+      message: `${updated.length} join request(s) ${action === 'approve' ? 'approved' : 'declined'}`,
+      updated,
+      waitlisted,
+      skipped,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMyJoinRequest = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const participation = await req.prisma?.eventParticipant.findUnique({
+      where: { eventId_userId: { eventId, userId } },
+      select: { status: true, joinedAt: true, waitlistedAt: true },
+    });
+
+    if (!participation) {
+      throw new NotFound('Request', 'You have not requested to join this event');
+    }
+
+    const { waitlistedAt, ...status } = participation;
+    new ResponseLib(req, res).json({
+      ...status,
+      ...(waitlistedAt && {
+        waitlistedAt,
+        waitlistPosition: await getWaitlistPosition(req.prisma!, eventId, waitlistedAt),
+      }),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const cancelJoinRequest = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const { count } = await req.prisma!.eventParticipant.deleteMany({
+      where: { eventId, userId, status: ParticipantStatus.PENDING },
+    });
+
+    if (count === 0) {
+      throw new NotFound('Request', 'No pending join request found');
+    }
+
+    new ResponseLib(req, res).json({ message: 'Join request cancelled' });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,316 @@
+import { Prisma } from '@prisma/client';
+import { NextFunction, Response } from 'express';
+import { getOidcProvider, OidcProviderConfig, oidcProviders } from '../config/oidc';
+import { BadRequest, Conflict, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { buildAuthorizationUrl, createPkcePair, exchangeAuthorizationCode } from '../utils/oidc';
+import { generateToken, issueAuthTokens } from '../utils/session';
+import { createTwoFactorChallenge } from '../utils/twoFactor';
+
+const AUTH_REQUEST_TTL_MINUTES = 10;
+
+const identitySelect = { id: true, provider: true, email: true, createdAt: true, lastLoginAt: true };
+
+interface CallbackInput {
+  code: string;
+  state: string;
+}
+
+const findProvider = (id: string): OidcProviderConfig => {
+  const provider = getOidcProvider(id);
+  if (!provider) {
+    throw new NotFound('Provider', `Unknown identity provider: ${id}`);
+  }
+  return provider;
+};
+
+// Persist the PKCE verifier and nonce for the callback and build the provider URL
+const startAuthorization = async (req: AuthRequest, provider: OidcProviderConfig, userId?: string) => {
+  const { codeVerifier, codeChallenge } = createPkcePair();
+  const state = generateToken(24);
+  const nonce = generateToken(24);
+
+  await req.prisma?.oidcAuthRequest.create({
+    data: {
+      state,
+      provider: provider.id,
+      codeVerifier,
+      nonce,
+      userId,
+      expiresAt: new Date(Date.now() + AUTH_REQUEST_TTL_MINUTES * 60 * 1000),
+    },
+  });
+
+  const authorizationUrl = await buildAuthorizationUrl(provider, { state, nonce, codeChallenge });
+  return { authorizationUrl, state };
+};
+
+export const getProviders = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    new ResponseLib(req, res).json(oidcProviders.map(({ id, name }) => ({ id, name })));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const authorize = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const provider = findProvider(req.params.provider);
+
+    new ResponseLib(req, res).json(await startAuthorization(req, provider));
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const linkProvider = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const provider = findProvider(req.params.provider);
+
+    new ResponseLib(req, res).json(await startAuthorization(req, provider, userId));
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Consume the single-use state and exchange the authorization code for the provider's claims
+const completeAuthorization = async (req: AuthRequest, provider: OidcProviderConfig, userId?: string) => {
+  const { code, state }: CallbackInput = req.body;
+
+  if (!code || !state) {
+    throw new BadRequest('Validation', 'Code and state are required');
+  }
+
+  const authRequest = await req.prisma?.oidcAuthRequest.findUnique({ where: { state } });
+  if (!authRequest || authRequest.provider !== provider.id) {
+    throw new BadRequest('State', 'Invalid or expired sign-in request');
+  }
+
+  // State is single use, whatever the outcome; when two callbacks race only one of them deletes it
+  const { count } = await req.prisma!.oidcAuthRequest.deleteMany({ where: { id: authRequest.id } });
+
+  // A link request only completes for the user who started it, so nobody can be sent someone else's link URL
+  // to attach their identity to, and be signed in to, that account
+  if (count !== 1 || authRequest.expiresAt < new Date() || (authRequest.userId ?? undefined) !== userId) {
+    throw new BadRequest('State', 'Invalid or expired sign-in request');
+  }
+
+  return exchangeAuthorizationCode(provider, code, authRequest.codeVerifier, authRequest.nonce);
+};
+
+const createIdentity = async (req: AuthRequest, data: Prisma.UserIdentityUncheckedCreateInput) => {
+  try {
+    return await req.prisma!.userIdentity.create({ data, select: identitySelect });
+  } catch (error) {
+    // Another callback for the same identity got there first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Conflict('Identity', 'This account is already linked to a user');
+    }
+    throw error;
+  }
+};
+
+export const callback = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const provider = findProvider(req.params.provider);
+    const claims = await completeAuthorization(req, provider);
+
+    const identity = await req.prisma?.userIdentity.findUnique({
+      where: { provider_subject: { provider: provider.id, subject: claims.sub } },
+      select: { id: true, userId: true },
+    });
+
+    let userId: string;
+
+    if (identity) {
+      userId = identity.userId;
+    } else {
+      if (!claims.email) {
+        throw new BadRequest('Email', 'The identity provider did not share an email address');
+      }
+
+      const existingUser = await req.prisma?.user.findUnique({
+        where: { email: claims.email },
+        select: { id: true, emailVerifiedAt: true },
+      });
+
+      // An unverified account may have been registered by someone else to squat the address, so it is never taken over
+      if (existingUser && (!claims.email_verified || !existingUser.emailVerifiedAt)) {
+        throw new Conflict(
+          'Email',
+          'An account with this email already exists. Sign in with your password and link this provider from your account.'
+        );
+      }
+
+      userId = existingUser
+        ? existingUser.id
+        : (await req.prisma!.user.create({
+            data: {
+              name: claims.name || claims.email,
+              email: claims.email,
+              avatar: claims.picture,
+              emailVerifiedAt: claims.email_verified ? new Date() : null,
+            },
+            select: { id: true },
+          })).id;
+    }
+
+    if (identity) {
+      await req.prisma?.userIdentity.update({
+        where: { id: identity.id },
+        data: { lastLoginAt: new Date(), email: claims.email },
+      });
+    } else {
+      await createIdentity(req, {
+        userId,
+        provider: provider.id,
+        subject: claims.sub,
+        email: claims.email,
+        lastLoginAt: new Date(),
+      });
+    }
+
+    const user = await req.prisma!.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, avatar: true, emailVerifiedAt: true, totpEnabledAt: true, createdAt: true },
+    });
+
+    // A verified email from the provider proves ownership of the address
+    if (!user.emailVerifiedAt && claims.email_verified && claims.email === user.email) {
+      user.emailVerifiedAt = new Date();
+      await req.prisma?.user.update({ where: { id: userId }, data: { emailVerifiedAt: user.emailVerifiedAt } });
+    }
+
+    if (user.totpEnabledAt) {
+      return void new ResponseLib(req, res).json({
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user.id),
+      });
+    }
+
+    const tokens = await issueAuthTokens(req.prisma!, user, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+
+    new ResponseLib(req, res).json({ user, ...tokens });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const linkCallback = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const provider = findProvider(req.params.provider);
+    const claims = await completeAuthorization(req, provider, userId);
+
+    const existing = await req.prisma?.userIdentity.findUnique({
+      where: { provider_subject: { provider: provider.id, subject: claims.sub } },
+      select: { id: true, userId: true },
+    });
+
+    if (existing && existing.userId !== userId) {
+      throw new Conflict('Identity', 'This account is already linked to another user');
+    }
+
+    // The user is already signed in, so linking returns the identity rather than a new session
+    const identity = existing
+      ? await req.prisma!.userIdentity.update({
+          where: { id: existing.id },
+          data: { email: claims.email },
+          select: identitySelect,
+        })
+      : await createIdentity(req, { userId, provider: provider.id, subject: claims.sub, email: claims.email });
+
+    new ResponseLib(req, res).json(identity);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getIdentities = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const identities = await req.prisma?.userIdentity.findMany({
+      where: { userId },
+      select: identitySelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    new ResponseLib(req, res).json(identities);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unlinkProvider = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const user = await req.prisma?.user.findUnique({
+      where: { id: userId },
+      select: { password: true, identities: { select: { id: true, provider: true } } },
+    });
+
+    const identity = user?.identities.find(i => i.provider === req.params.provider);
+    if (!user || !identity) {
+      throw new NotFound('Identity', 'This provider is not linked to your account');
+    }
+
+    if (!user.password && user.identities.length === 1) {
+      throw new BadRequest('Identity', 'Set a password before unlinking your only sign-in method');
+    }
+
+    await req.prisma?.userIdentity.delete({ where: { id: identity.id } });
+
+    new ResponseLib(req, res).json({ message: 'Provider unlinked successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
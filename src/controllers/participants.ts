@@ -0,0 +1,409 @@
+import { EventRole, LeaveReason, ParticipantStatus, Prisma, PrismaClient } from '@prisma/client';
+import { NextFunction, Response } from 'express';
+import { BadRequest, Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { deleteFile } from '../utils/cloudinary';
+import { notifyWaitlistPromotions, promoteFromWaitlist } from '../utils/eventMembership';
+import { EventPermission, getEventAccess } from '../utils/permissions';
+
+type MediaAction = 'keep' | 'hide' | 'delete';
+
+const MEDIA_ACTIONS: MediaAction[] = ['keep', 'hide', 'delete'];
+
+// Statuses that removing or banning someone ends
+const ACTIVE_STATUSES: ParticipantStatus[] = [
+  ParticipantStatus.JOINED,
+  ParticipantStatus.WAITLISTED,
+];
+
+// Take someone out of an event. Pending requests are declined rather than left, so they can't come back as a rejoin.
+const endParticipation = async (prisma: Prisma.TransactionClient, eventId: string, userId: string): Promise<number> => {
+  const removed = await prisma.eventParticipant.updateMany({
+    where: { eventId, userId, status: { in: ACTIVE_STATUSES } },
+    data: {
+      status: ParticipantStatus.LEFT,
+      leftAt: new Date(),
+      leftReason: LeaveReason.REMOVED,
+      waitlistedAt: null,
+      role: EventRole.ATTENDEE,
+    },
+  });
+
+  const declined = await prisma.eventParticipant.updateMany({
+    where: { eventId, userId, status: ParticipantStatus.PENDING },
+    data: { status: ParticipantStatus.DECLINED },
+  });
+
+  return removed.count + declined.count;
+};
+
+interface UpdateRoleInput {
+  role: EventRole;
+}
+
+interface BanInput {
+  userId: string;
+  reason?: string;
+  media?: MediaAction;
+}
+
+const parseMediaAction = (value: unknown): MediaAction => {
+  const action = (value || 'keep') as MediaAction;
+  if (!MEDIA_ACTIONS.includes(action)) {
+    throw new BadRequest('Validation', `Media must be one of: ${MEDIA_ACTIONS.join(', ')}`);
+  }
+  return action;
+};
+
+// Organizers can't remove the creator or themselves, and only those who manage roles can remove staff
+const assertCanRemove = async (req: AuthRequest, eventId: string, targetUserId: string) => {
+  const actorId = req.user!.id;
+  if (targetUserId === actorId) {
+    throw new BadRequest('Participant', 'Use leave to remove yourself from an event');
+  }
+
+  const target = await getEventAccess(req.prisma!, eventId, targetUserId);
+  if (!target) {
+    throw new NotFound('Event', 'Event not found');
+  }
+
+  if (target.isCreator) {
+    throw new Forbidden('Access', 'The event creator cannot be removed');
+  }
+
+  if (target.role && target.role !== EventRole.ATTENDEE) {
+    const actor = await getEventAccess(req.prisma!, eventId, actorId);
+    if (!actor?.permissions.includes(EventPermission.MANAGE_ROLES)) {
+      throw new Forbidden('Access', 'Only event admins can remove co-hosts and moderators');
+    }
+  }
+};
+
+// Hide or delete everything a removed participant uploaded to the event
+const applyMediaAction = async (prisma: PrismaClient, eventId: string, userId: string, action: MediaAction) => {
+  if (action === 'hide') {
+    const { count } = await prisma.image.updateMany({
+      where: { eventId, uploaderId: userId, hiddenAt: null },
+      data: { hiddenAt: new Date() },
+    });
+    return count;
+  }
+
+  if (action === 'delete') {
+    const images = await prisma.image.findMany({
+      where: { eventId, uploaderId: userId },
+      select: { id: true, publicId: true, mediaType: true },
+    });
+    for (const image of images) {
+      await deleteFile(image.publicId, image.mediaType as 'image' | 'video');
+    }
+    await prisma.image.deleteMany({ where: { id: { in: images.map(image => image.id) } } });
+    return images.length;
+  }
+
+  return 0;
+};
+
+export const getEventParticipants = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+
+    // Get pagination parameters from query string
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const status = req.query.status as ParticipantStatus | undefined;
+    const role = req.query.role as EventRole | undefined;
+    const search = (req.query.search as string | undefined)?.trim();
+
+    if (status && !Object.values(ParticipantStatus).includes(status)) {
+      throw new BadRequest('Validation', `Status must be one of: ${Object.values(ParticipantStatus).join(', ')}`);
+    }
+
+    if (role && !Object.values(EventRole).includes(role)) {
+      throw new BadRequest('Validation', `Role must be one of: ${Object.values(EventRole).join(', ')}`);
+    }
+
+    const whereClause: Prisma.EventParticipantWhereInput = {
+      eventId,
+      status: status || ParticipantStatus.JOINED,
+      role,
+      ...(search && {
+        user: {
+          OR: [
+            { name: { contains: search, mode: 'insensitive' } },
+            { email: { contains: search, mode: 'insensitive' } },
+          ],
+        },
+      }),
+    };
+
+    const [totalItems, participants] = await Promise.all([
+      req.prisma!.eventParticipant.count({ where: whereClause }),
+      req.prisma!.eventParticipant.findMany({
+        where: whereClause,
+        select: {
+          id: true,
+          status: true,
+          role: true,
+          joinedAt: true,
+          leftAt: true,
+          user: { select: { id: true, name: true, email: true, avatar: true } },
+        },
+        orderBy: { joinedAt: 'asc' },
+        skip,
+        take: limit,
+      }),
+    ]);
+
+    // Calculate pagination metadata
+    const totalPages = Math.ceil(totalItems / limit);
+
+    new ResponseLib(req, res).json({
+      data: participants,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeParticipant = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId, userId: participantId } = req.params;
+    const ban = req.query.ban === 'true';
+    const reason = req.query.reason as string | undefined;
+    const media = parseMediaAction(req.query.media);
+
+    await assertCanRemove(req, eventId, participantId);
+
+    const promoted = await req.prisma!.$transaction(async tx => {
+      if ((await endParticipation(tx, eventId, participantId)) === 0) {
+        throw new NotFound('Participant', 'Participant not found');
+      }
+      return promoteFromWaitlist(tx, eventId);
+    });
+    await notifyWaitlistPromotions(req.prisma!, eventId, promoted);
+
+    if (ban) {
+      await req.prisma?.eventBan.upsert({
+        where: { eventId_userId: { eventId, userId: participantId } },
+        create: { eventId, userId: participantId, bannedById: req.user?.id, reason },
+        update: {},
+      });
+    }
+
+    const affectedMedia = await applyMediaAction(req.prisma!, eventId, participantId, media);
+
+    new ResponseLib(req, res).json({
+      message: ban ? 'Participant removed and banned' : 'Participant removed',
+      media,
+      affectedMedia,
+      promotedFromWaitlist: promoted,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getEventWaitlist = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+
+    const waitlist = await req.prisma?.eventParticipant.findMany({
+      where: { eventId, status: ParticipantStatus.WAITLISTED },
+      select: {
+        id: true,
+        waitlistedAt: true,
+        user: { select: { id: true, name: true, email: true, avatar: true } },
+      },
+      orderBy: { waitlistedAt: 'asc' },
+    });
+
+    new ResponseLib(req, res).json({
+      count: waitlist?.length || 0,
+      data: waitlist?.map((entry, index) => ({ ...entry, position: index + 1 })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getEventBans = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+
+    const bans = await req.prisma?.eventBan.findMany({
+      where: { eventId },
+      select: {
+        id: true,
+        reason: true,
+        createdAt: true,
+        user: { select: { id: true, name: true, email: true, avatar: true } },
+        bannedBy: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    new ResponseLib(req, res).json({ data: bans });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const banUser = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const { userId, reason, media: mediaInput }: BanInput = req.body;
+    const media = parseMediaAction(mediaInput);
+
+    if (!userId) {
+      throw new BadRequest('Validation', 'User id is required');
+    }
+
+    const user = await req.prisma?.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new NotFound('User', 'User not found');
+    }
+
+    await assertCanRemove(req, eventId, userId);
+
+    const ban = await req.prisma!.eventBan.upsert({
+      where: { eventId_userId: { eventId, userId } },
+      create: { eventId, userId, bannedById: req.user?.id, reason },
+      update: { reason },
+      select: { id: true, reason: true, createdAt: true },
+    });
+
+    // A banned user is no longer part of the event, nor waiting to be
+    const promoted = await req.prisma!.$transaction(async tx => {
+      await endParticipation(tx, eventId, userId);
+      return promoteFromWaitlist(tx, eventId);
+    });
+    await notifyWaitlistPromotions(req.prisma!, eventId, promoted);
+
+    const affectedMedia = await applyMediaAction(req.prisma!, eventId, userId, media);
+
+    new ResponseLib(req, res).status(201).json({ ...ban, userId, media, affectedMedia, promotedFromWaitlist: promoted });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unbanUser = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId, userId } = req.params;
+
+    const { count } = await req.prisma!.eventBan.deleteMany({ where: { eventId, userId } });
+
+    if (count === 0) {
+      throw new NotFound('Ban', 'This user is not banned from the event');
+    }
+
+    new ResponseLib(req, res).json({ message: 'User unbanned, they can join the event again' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMyEventPermissions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const access = await getEventAccess(req.prisma!, eventId, userId);
+
+    if (!access) {
+      throw new NotFound('Event', 'Event not found');
+    }
+
+    new ResponseLib(req, res).json(access);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateParticipantRole = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId, userId: participantId } = req.params;
+    const { role }: UpdateRoleInput = req.body;
+
+    if (!Object.values(EventRole).includes(role)) {
+      throw new BadRequest('Validation', `Role must be one of: ${Object.values(EventRole).join(', ')}`);
+    }
+
+    const event = await req.prisma?.event.findUnique({
+      where: { id: eventId },
+      select: { creatorId: true },
+    });
+
+    if (!event) {
+      throw new NotFound('Event', 'Event not found');
+    }
+
+    if (participantId === event.creatorId) {
+      throw new Forbidden('Access', 'The event creator\'s role cannot be changed');
+    }
+
+    const { count } = await req.prisma!.eventParticipant.updateMany({
+      where: { eventId, userId: participantId, status: ParticipantStatus.JOINED },
+      data: { role },
+    });
+
+    if (count === 0) {
+      throw new NotFound('Participant', 'Participant not found');
+    }
+
+    new ResponseLib(req, res).json({
+      message: `Participant role updated to ${role}`,
+      userId: participantId,
+      role,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
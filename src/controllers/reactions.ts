@@ -0,0 +1,116 @@
+import { NextFunction, Response } from 'express';
+import { BadRequest, Forbidden } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { getImageAccess } from '../utils/mediaAccess';
+import { DEFAULT_REACTION, getReactionSummaries, REACTION_EMOJIS } from '../utils/reactions';
+import { assertGalleryUnlocked } from '../utils/uploadWindow';
+
+interface ToggleReactionInput {
+  emoji?: string;
+}
+
+const parseEmoji = (value: unknown): string => {
+  const emoji = (value as string | undefined) || DEFAULT_REACTION;
+  if (!REACTION_EMOJIS.includes(emoji)) {
+    throw new BadRequest('Validation', `Emoji must be one of: ${REACTION_EMOJIS.join(' ')}`);
+  }
+  return emoji;
+};
+
+export const toggleReaction = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: imageId } = req.params;
+    const { emoji: input }: ToggleReactionInput = req.body;
+    const emoji = parseEmoji(input);
+    const userId = req.user!.id;
+
+    const { event, isMember } = await getImageAccess(req, imageId);
+    assertGalleryUnlocked(event);
+
+    if (!isMember) {
+      throw new Forbidden('Access', 'Only event participants can react to media');
+    }
+
+    // Removing first makes a repeated toggle undo the reaction; upsert keeps concurrent adds idempotent
+    const { count } = await req.prisma!.reaction.deleteMany({
+      where: { userId, imageId, emoji },
+    });
+
+    if (count === 0) {
+      await req.prisma!.reaction.upsert({
+        where: { userId_imageId_emoji: { userId, imageId, emoji } },
+        create: { userId, imageId, emoji },
+        update: {},
+      });
+    }
+
+    const summaries = await getReactionSummaries(req.prisma!, [imageId], userId);
+
+    new ResponseLib(req, res).json({
+      emoji,
+      reacted: count === 0,
+      reactions: summaries.get(imageId),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getImageReactions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: imageId } = req.params;
+    const emoji = req.query.emoji ? parseEmoji(req.query.emoji) : undefined;
+
+    await getImageAccess(req, imageId);
+
+    // Get pagination parameters from query string
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const whereClause = { imageId, emoji };
+
+    const [totalItems, reactions, summaries] = await Promise.all([
+      req.prisma!.reaction.count({ where: whereClause }),
+      req.prisma!.reaction.findMany({
+        where: whereClause,
+        select: {
+          emoji: true,
+          createdAt: true,
+          user: { select: { id: true, name: true, avatar: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      getReactionSummaries(req.prisma!, [imageId], req.user?.id),
+    ]);
+
+    // Calculate pagination metadata
+    const totalPages = Math.ceil(totalItems / limit);
+
+    new ResponseLib(req, res).json({
+      reactions: summaries.get(imageId),
+      data: reactions,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
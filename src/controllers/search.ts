@@ -0,0 +1,113 @@
+import { ParticipantStatus } from '@prisma/client';
+import { NextFunction, Response } from 'express';
+import { BadRequest, Unauthorized } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { getMediaVersions } from '../utils/cloudinary';
+import { hideJoinCodes } from '../utils/joinCodes';
+import { getReactionSummaries } from '../utils/reactions';
+import { MAX_QUERY_LENGTH, SEARCH_TYPES, searchEvents, SearchHit, searchMedia, SearchType } from '../utils/search';
+
+// Put fetched rows back in rank order, with their rank and highlights
+const withHits = <T extends { id: string }, H>(hits: SearchHit<H>[], rows: T[]) => {
+  const byId = new Map(rows.map(row => [row.id, row]));
+  return hits
+    .filter(hit => byId.has(hit.id))
+    .map(({ id, rank, highlights }) => ({ ...byId.get(id)!, rank, highlights }));
+};
+
+export const search = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Authentication required');
+    }
+
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!query) {
+      throw new BadRequest('Validation', 'Search query is required');
+    }
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw new BadRequest('Validation', `Search query must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    const type = ((req.query.type as string) || 'media') as SearchType;
+    if (!SEARCH_TYPES.includes(type)) {
+      throw new BadRequest('Validation', `Type must be one of: ${SEARCH_TYPES.join(', ')}`);
+    }
+
+    // Get pagination parameters from query string
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    let totalItems: number;
+    let data: unknown[];
+
+    if (type === 'events') {
+      const { total, hits } = await searchEvents(req.prisma!, query, userId, { skip, take: limit });
+      totalItems = total;
+
+      const events = await req.prisma!.event.findMany({
+        where: { id: { in: hits.map(hit => hit.id) } },
+        include: {
+          creator: { select: { id: true, name: true, avatar: true } },
+          _count: {
+            select: {
+              participants: { where: { status: ParticipantStatus.JOINED } },
+              images: true,
+            },
+          },
+        },
+      });
+
+      data = withHits(hits, await hideJoinCodes(req.prisma!, events, userId));
+    } else {
+      const { total, hits } = await searchMedia(req.prisma!, query, userId, { skip, take: limit });
+      totalItems = total;
+
+      const ids = hits.map(hit => hit.id);
+      const [images, reactions] = await Promise.all([
+        req.prisma!.image.findMany({
+          where: { id: { in: ids } },
+          include: {
+            event: { select: { id: true, name: true } },
+            uploader: { select: { id: true, name: true, avatar: true } },
+            guest: { select: { id: true, displayName: true } },
+          },
+        }),
+        getReactionSummaries(req.prisma!, ids, userId),
+      ]);
+
+      data = withHits(hits, images).map(image => ({
+        ...image,
+        reactions: reactions.get(image.id),
+        versions: getMediaVersions(image.url, image.mediaType as 'image' | 'video'),
+      }));
+    }
+
+    // Calculate pagination metadata
+    const totalPages = Math.ceil(totalItems / limit);
+
+    new ResponseLib(req, res).json({
+      query,
+      type,
+      data,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,149 @@
+import { EventVisibility, TagSource } from '@prisma/client';
+import { NextFunction, Response } from 'express';
+import { BadRequest, Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { getImageAccess } from '../utils/mediaAccess';
+import { EventPermission, getEventAccess } from '../utils/permissions';
+import { addImageTags, MAX_TAGS_PER_IMAGE, normalizeTag, parseTags, tagSelect, toTagNames } from '../utils/tags';
+import { assertGalleryUnlocked } from '../utils/uploadWindow';
+
+const DEFAULT_CLOUD_SIZE = 50;
+const MAX_CLOUD_SIZE = 200;
+
+interface AddTagsInput {
+  tags: string[];
+}
+
+export const addTagsToImage = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: imageId } = req.params;
+    const { tags: input }: AddTagsInput = req.body;
+    const names = parseTags(input);
+
+    const { event, isMember } = await getImageAccess(req, imageId);
+    assertGalleryUnlocked(event);
+
+    if (!isMember) {
+      throw new Forbidden('Access', 'Only event participants can tag media');
+    }
+
+    const tags = await req.prisma!.$transaction(async tx => {
+      const attached = toTagNames(await tx.imageTag.findMany({ where: { imageId }, ...tagSelect }));
+      const added = names.filter(name => !attached.includes(name));
+
+      if (attached.length + added.length > MAX_TAGS_PER_IMAGE) {
+        throw new BadRequest('Validation', `Media can have at most ${MAX_TAGS_PER_IMAGE} tags`);
+      }
+
+      await addImageTags(tx, imageId, added, TagSource.MANUAL, req.user?.id);
+      return toTagNames(await tx.imageTag.findMany({ where: { imageId }, ...tagSelect }));
+    });
+
+    new ResponseLib(req, res).json({ tags });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeTagFromImage = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: imageId } = req.params;
+    const name = normalizeTag(req.params.tag);
+    const userId = req.user?.id;
+
+    const { image, event, access } = await getImageAccess(req, imageId);
+
+    const imageTag = name ? await req.prisma?.imageTag.findFirst({
+      where: { imageId, tag: { name } },
+      select: { id: true, addedById: true, image: { select: { uploaderId: true } } },
+    }) : null;
+
+    if (!imageTag) {
+      throw new NotFound('Tag', 'Tag not found on this media');
+    }
+
+    // The uploader and whoever added the tag can remove it, as can anyone who moderates the event's media.
+    // Tags added by guests aren't attributed, so a guest can only remove tags from their own uploads.
+    const isUploader = userId ? imageTag.image.uploaderId === userId : image.guestId === req.guest?.gid;
+    const addedTag = !!userId && imageTag.addedById === userId;
+    const canModerate = access?.permissions.includes(EventPermission.MODERATE_MEDIA);
+    if (!isUploader && !addedTag && !canModerate) {
+      throw new Forbidden('Access', 'You do not have permission to remove this tag');
+    }
+
+    if (!canModerate) {
+      assertGalleryUnlocked(event);
+    }
+
+    await req.prisma!.imageTag.delete({ where: { id: imageTag.id } });
+
+    const tags = await req.prisma!.imageTag.findMany({ where: { imageId }, ...tagSelect });
+
+    new ResponseLib(req, res).json({ tags: toTagNames(tags) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getEventTags = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Authentication required');
+    }
+
+    const event = await req.prisma?.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, visibility: true, isPublicGallery: true },
+    });
+
+    if (!event) {
+      throw new NotFound('Event', 'Event not found');
+    }
+
+    if (event.visibility !== EventVisibility.PUBLIC && !event.isPublicGallery) {
+      const access = await getEventAccess(req.prisma!, eventId, userId);
+      if (!access?.role) {
+        throw new Forbidden('Access', 'You do not have permission to view this event\'s media');
+      }
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || DEFAULT_CLOUD_SIZE, MAX_CLOUD_SIZE);
+
+    // Count only media that is visible in the gallery
+    const groups = await req.prisma!.imageTag.groupBy({
+      by: ['tagId'],
+      where: { image: { eventId, hiddenAt: null } },
+      _count: { _all: true },
+      orderBy: [{ _count: { tagId: 'desc' } }, { tagId: 'asc' }],
+      take: limit,
+    });
+
+    const tags = await req.prisma!.tag.findMany({
+      where: { id: { in: groups.map(group => group.tagId) } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(tags.map(tag => [tag.id, tag.name]));
+
+    new ResponseLib(req, res).json({
+      data: groups.map(group => ({ name: names.get(group.tagId), count: group._count._all })),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
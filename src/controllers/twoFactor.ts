@@ -0,0 +1,208 @@
+import { NextFunction, Response } from 'express';
+import { BadRequest, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ResponseLib from '../libs/Response.Lib';
+import { AuthRequest } from '../types';
+import { assertLoginAllowed, recordLoginFailure, resetLoginFailures } from '../utils/loginThrottle';
+import { issueAuthTokens } from '../utils/session';
+import { buildOtpauthUri, decryptTotpSecret, encryptTotpSecret, generateTotpSecret, verifyTotp } from '../utils/totp';
+import {
+  replaceRecoveryCodes,
+  SecondFactorInput,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from '../utils/twoFactor';
+
+interface ConfirmInput {
+  code: string;
+}
+
+interface VerifyLoginInput extends SecondFactorInput {
+  challengeToken: string;
+}
+
+export const setupTwoFactor = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    const user = await req.prisma?.user.findUnique({
+      where: { id: userId },
+      select: { email: true, totpEnabledAt: true },
+    });
+
+    if (!user) {
+      throw new NotFound('User', 'User not found');
+    }
+
+    if (user.totpEnabledAt) {
+      throw new BadRequest('2FA', 'Two-factor authentication is already enabled');
+    }
+
+    // Stored as pending until confirmed with a first code
+    const secret = generateTotpSecret();
+    await req.prisma?.user.update({
+      where: { id: userId },
+      data: { totpSecret: encryptTotpSecret(secret), totpLastUsedStep: null },
+    });
+
+    new ResponseLib(req, res).json({
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const confirmTwoFactor = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code }: ConfirmInput = req.body;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    if (!code) {
+      throw new BadRequest('Validation', 'Code is required');
+    }
+
+    const user = await req.prisma?.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+
+    if (!user?.totpSecret) {
+      throw new BadRequest('2FA', 'Start two-factor setup first');
+    }
+
+    if (user.totpEnabledAt) {
+      throw new BadRequest('2FA', 'Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(decryptTotpSecret(user.totpSecret), code);
+    if (step === null) {
+      throw new BadRequest('2FA', 'Invalid code');
+    }
+
+    await req.prisma?.user.update({
+      where: { id: userId },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step },
+    });
+
+    const recoveryCodes = await replaceRecoveryCodes(req.prisma!, userId);
+
+    new ResponseLib(req, res).json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyTwoFactorLogin = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode }: VerifyLoginInput = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      throw new BadRequest('Validation', 'Challenge token and a code or recovery code are required');
+    }
+
+    const userId = verifyTwoFactorChallenge(challengeToken);
+
+    // Six digit codes are easy to guess without a cap on attempts
+    const throttleSubject = { account: `2fa:${userId}`, ip: req.ip };
+    await assertLoginAllowed(throttleSubject);
+
+    if (!(await verifySecondFactor(req.prisma!, userId, { code, recoveryCode }))) {
+      await recordLoginFailure(throttleSubject);
+      throw new Unauthorized('Auth', 'Invalid two-factor code');
+    }
+
+    await resetLoginFailures(throttleSubject.account);
+
+    const user = await req.prisma?.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, avatar: true, emailVerifiedAt: true, createdAt: true },
+    });
+
+    if (!user) {
+      throw new NotFound('User', 'User not found');
+    }
+
+    const tokens = await issueAuthTokens(req.prisma!, user, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+
+    new ResponseLib(req, res).json({ user, ...tokens });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableTwoFactor = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code, recoveryCode }: SecondFactorInput = req.body;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    if (!(await verifySecondFactor(req.prisma!, userId, { code, recoveryCode }))) {
+      throw new Unauthorized('Auth', 'Invalid two-factor code');
+    }
+
+    await req.prisma?.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+    });
+    await req.prisma?.recoveryCode.deleteMany({ where: { userId } });
+
+    new ResponseLib(req, res).json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const regenerateRecoveryCodes = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code }: ConfirmInput = req.body;
+    const userId = req.user?.id;
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Not authenticated');
+    }
+
+    if (!(await verifySecondFactor(req.prisma!, userId, { code }))) {
+      throw new Unauthorized('Auth', 'Invalid two-factor code');
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(req.prisma!, userId);
+
+    new ResponseLib(req, res).json({ recoveryCodes });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,14 +1,33 @@
-import { User } from '@prisma/client';
+import { Prisma, User } from '@prisma/client';
+import bcrypt from 'bcryptjs';
 import { NextFunction, Response } from 'express';
-import { BadRequest, NotFound, Unauthorized } from '../libs/Error.Lib';
+import { BadRequest, Conflict, NotFound, Unauthorized } from '../libs/Error.Lib';
 import ResponseLib from '../libs/Response.Lib';
 import { AuthRequest } from '../types';
+import { eventPageArgs, parseEventListQuery, toEventPage } from '../utils/eventListing';
+import { hideJoinCodes } from '../utils/joinCodes';
+import { sendVerificationEmail } from '../utils/emailVerification';
+import { sendMail } from '../utils/mailer';
+import { revokeUserSessions } from '../utils/session';
 
 interface UpdateUserInput {
   name?: string;
   avatar?: string;
 }
 
+// Profile fields a user may change through updateUser
+const UPDATABLE_PROFILE_FIELDS: Array<keyof UpdateUserInput> = ['name', 'avatar'];
+
+interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+interface ChangeEmailInput {
+  email: string;
+  password: string;
+}
+
 interface UserWithRelations extends User {
   images: Array<{
     id: string;
@@ -144,7 +163,6 @@ export const updateUser = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const updates: UpdateUserInput = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -155,6 +173,13 @@ export const updateUser = async (
       throw new Unauthorized('Auth', 'You can only update your own profile');
     }
 
+    const updates: UpdateUserInput = {};
+    UPDATABLE_PROFILE_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) {
+        updates[field] = req.body[field];
+      }
+    });
+
     if (Object.keys(updates).length === 0) {
       throw new BadRequest('Validation', 'No updates provided');
     }
@@ -177,6 +202,129 @@ export const updateUser = async (
   }
 };
 
+export const changePassword = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { currentPassword, newPassword }: ChangePasswordInput = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Authentication required');
+    }
+
+    if (!newPassword) {
+      throw new BadRequest('Validation', 'New password is required');
+    }
+
+    if (newPassword.length < 6) {
+      throw new BadRequest('Validation', 'Password must be at least 6 characters');
+    }
+
+    const user = await req.prisma?.user.findUnique({
+      where: { id: userId },
+      select: { id: true, password: true },
+    });
+
+    if (!user) {
+      throw new NotFound('User', 'User not found');
+    }
+
+    // Without a password there is nothing to confirm the change with, and an access token alone shouldn't be enough
+    // to add a permanent credential, so accounts from an identity provider or magic link set theirs by email
+    if (!user.password) {
+      throw new BadRequest('Password', 'This account has no password yet. Use forgot password to set one by email.');
+    }
+
+    if (!currentPassword) {
+      throw new BadRequest('Validation', 'Current password is required');
+    }
+
+    const isValidPassword = await bcrypt.compare(currentPassword, user.password);
+    if (!isValidPassword) {
+      throw new Unauthorized('Auth', 'Current password is incorrect');
+    }
+
+    await req.prisma?.user.update({
+      where: { id: userId },
+      data: { password: await bcrypt.hash(newPassword, 10) },
+    });
+
+    // Keep the session that made the change, sign out everywhere else
+    await revokeUserSessions(req.prisma!, userId, req.user?.sid);
+
+    new ResponseLib(req, res).json({ message: 'Password changed successfully' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const changeEmail = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email, password }: ChangeEmailInput = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new Unauthorized('Auth', 'Authentication required');
+    }
+
+    if (!email || !password) {
+      throw new BadRequest('Validation', 'Email and password are required');
+    }
+
+    const user = await req.prisma?.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, password: true },
+    });
+
+    if (!user) {
+      throw new NotFound('User', 'User not found');
+    }
+
+    if (!user.password) {
+      throw new BadRequest('Password', 'Set a password before changing your email address');
+    }
+
+    const isValidPassword = await bcrypt.compare(password, user.password);
+    if (!isValidPassword) {
+      throw new Unauthorized('Auth', 'Password is incorrect');
+    }
+
+    if (email === user.email) {
+      throw new BadRequest('Email', 'This is already your email address');
+    }
+
+    const existingUser = await req.prisma?.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (existingUser) {
+      throw new Conflict('Email', 'User with this email already exists');
+    }
+
+    // The address only changes once the link sent to it is opened
+    await sendVerificationEmail(req.prisma!, user, email);
+    await sendMail({
+      to: user.email,
+      subject: 'Your Moments email address is changing',
+      text: `Hi ${user.name},\n\nA request was made to change the email address on your account to ${email}. The change takes effect once the new address is verified. If this wasn't you, change your password right away.`,
+    });
+
+    new ResponseLib(req, res).json({
+      message: 'Verification email sent to the new address. Your email will change once it is verified.',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const deleteUser = async (
   req: AuthRequest,
   res: Response,
@@ -217,7 +365,7 @@ export const getUserEvents = async (
       throw new Unauthorized('Auth', 'Authentication required');
     }
 
-    const where: any = {
+    const where: Prisma.EventWhereInput = {
       participants: {
         some: {
           userId: id,
@@ -232,9 +380,11 @@ export const getUserEvents = async (
         { participants: { some: { userId: requestingUserId, status: 'JOINED' } } },
       ];
     }
+
+    const listQuery = parseEventListQuery(req.query);
     
-    const events = await req.prisma?.event.findMany({
-      where,
+    const events = await req.prisma!.event.findMany({
+      ...await eventPageArgs(req.prisma!, listQuery, where),
       include: {
         creator: {
           select: {
@@ -249,12 +399,9 @@ export const getUserEvents = async (
           },
         },
       },
-      orderBy: {
-        createdAt: 'desc',
-      },
     });
 
-    new ResponseLib(req, res).json(events);
+    new ResponseLib(req, res).json(toEventPage(await hideJoinCodes(req.prisma!, events, requestingUserId), listQuery));
   } catch (error) {
     next(error);
   }
@@ -277,6 +424,7 @@ export const getUserImages = async (
       ? { uploaderId: id }
       : {
           uploaderId: id,
+          hiddenAt: null,
           OR: [
             { event: { isPublicGallery: true } },
             { event: { participants: { some: { id: requestingUserId } } } },
@@ -316,10 +464,12 @@ export const getUserCreatedEvents = async (
       throw new Unauthorized('Auth', 'Authentication required');
     }
 
-    const events = await req.prisma?.event.findMany({
-      where: {
+    const listQuery = parseEventListQuery(req.query);
+
+    const events = await req.prisma!.event.findMany({
+      ...await eventPageArgs(req.prisma!, listQuery, {
         creatorId: userId,
-      },
+      }),
       include: {
         creator: {
           select: {
@@ -342,15 +492,12 @@ export const getUserCreatedEvents = async (
           },
         },
       },
-      orderBy: {
-        createdAt: 'desc',
-      },
     });
 
     new ResponseLib(req, res).json({
       status: 'success', 
       message: 'Created events fetched successfully',
-      data: events,
+      ...toEventPage(await hideJoinCodes(req.prisma!, events, userId), listQuery),
     });
   } catch (error) {
     next(error);
@@ -369,18 +516,21 @@ export const getUserJoinedEvents = async (
       throw new Unauthorized('Auth', 'Authentication required');
     }
 
-    const events = await req.prisma?.event.findMany({
-      where: {
+    const listQuery = parseEventListQuery(req.query);
+
+    const events = await req.prisma!.event.findMany({
+      ...await eventPageArgs(req.prisma!, listQuery, {
         participants: {
           some: {
-            id: userId,
+            userId,
+            status: 'JOINED',
           },
         },
         // Exclude events created by the user
         NOT: {
           creatorId: userId,
         },
-      },
+      }),
       include: {
         creator: {
           select: {
@@ -403,15 +553,12 @@ export const getUserJoinedEvents = async (
           },
         },
       },
-      orderBy: {
-        createdAt: 'desc',
-      },
     });
 
     new ResponseLib(req, res).json({
       status: 'success', 
       message: 'Joined events fetched successfully',
-      data: events,
+      ...toEventPage(await hideJoinCodes(req.prisma!, events, userId), listQuery),
     });
   } catch (error) {
     next(error);
@@ -546,10 +693,13 @@ export const getUserMediaStats = async (
       throw new NotFound('User', 'User not found');
     }
     
+    // Media hidden by moderators is only counted for its uploader
+    const uploads = { uploaderId: id, ...(id !== requestingUserId && { hiddenAt: null }) };
+
     // Get media count by type
     const mediaByType = await req.prisma?.image.groupBy({
       by: ['mediaType'],
-      where: { uploaderId: id },
+      where: uploads,
       _count: { _all: true },
     });
     
@@ -564,7 +714,7 @@ export const getUserMediaStats = async (
     const eventsWithMedia = await req.prisma?.event.findMany({
       where: {
         images: {
-          some: { uploaderId: id },
+          some: uploads,
         },
       },
       select: {
@@ -572,7 +722,7 @@ export const getUserMediaStats = async (
         name: true,
         _count: {
           select: {
-            images: { where: { uploaderId: id } },
+            images: { where: uploads },
           },
         },
       },
@@ -583,11 +733,11 @@ export const getUserMediaStats = async (
     
     // Get total uploads and other stats
     const totalUploads = await req.prisma?.image.count({
-      where: { uploaderId: id },
+      where: uploads,
     });
     
     const latestUpload = await req.prisma?.image.findFirst({
-      where: { uploaderId: id },
+      where: uploads,
       orderBy: { createdAt: 'desc' },
       select: {
         id: true,
@@ -665,9 +815,9 @@ export const getUserActivities = async (
       },
     });
     
-    // Get recent media uploads
+    // Get recent media uploads; media hidden by moderators is only shown to its uploader
     const recentUploads = await req.prisma?.image.findMany({
-      where: { uploaderId: id },
+      where: { uploaderId: id, ...(id !== requestingUserId && { hiddenAt: null }) },
       orderBy: { createdAt: 'desc' },
       take: 10,
       select: {
@@ -3,6 +3,7 @@ import cors from 'cors';
 import 'dotenv/config';
 import express from 'express';
 import httpContext from 'express-http-context';
+import Redis from 'ioredis';
 import swaggerUi from 'swagger-ui-express';
 import { v4 as uuidv4 } from 'uuid';
 import { swaggerSpec } from './config/swagger';
@@ -12,11 +13,20 @@ import ResponseLib from './libs/Response.Lib';
 // Import routes
 import { AssertionError } from 'assert';
 import ErrorLib from './libs/Error.Lib';
+import apiKeyRoutes from './routes/apiKeys';
 import authRoutes from './routes/auth';
+import cronRoutes from './routes/cron';
 import eventRoutes from './routes/events';
+import guestRoutes from './routes/guests';
 import imageRoutes from './routes/images';
+import invitationRoutes from './routes/invitations';
+import oidcRoutes from './routes/oidc';
+import searchRoutes from './routes/search';
+import twoFactorRoutes from './routes/twoFactor';
 import userRoutes from './routes/users';
 import { AuthRequest } from './types';
+import { applyTransitionsOnRequest, startEventScheduler } from './utils/eventLifecycle';
+import { RedisAttemptStore, setAttemptStore } from './utils/loginThrottle';
 
 // Initialize Express app
 const app = express();
@@ -25,8 +35,18 @@ const PORT = process.env.PORT || 4000;
 // Initialize Prisma client
 const prisma = new PrismaClient();
 
+// Failed login and join code counters have to be shared when several instances serve requests, as on Vercel
+if (process.env.REDIS_URL) {
+  setAttemptStore(new RedisAttemptStore(new Redis(process.env.REDIS_URL)));
+} else if (process.env.VERCEL) {
+  LoggerLib.error('REDIS_URL is not set, so attempt throttling is only counted per instance');
+}
+
 // Middleware
-app.set('trust proxy', true);
+// req.ip is what login throttling keys on, so only the proxies in front of the app may set X-Forwarded-For.
+// TRUST_PROXY is the number of proxy hops (Vercel adds one), or the addresses and subnets to trust.
+const trustProxy = process.env.TRUST_PROXY || '1';
+app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy);
 
 app.use(cors({ exposedHeaders: ['access-token'] }));
 app.use(express.json());
@@ -36,7 +56,7 @@ app.use(httpContext.middleware)
 app.use((req, _res, next) => {
   httpContext.set('request-id', uuidv4().toString());
   LoggerLib.log('API Request:', {
-    url: req.url, method: req.method, request: req.body
+    url: LoggerLib.redactUrl(req.url), method: req.method, request: req.body
   });
   next()
 })
@@ -50,10 +70,24 @@ app.use((req: AuthRequest, _res, next) => {
   next();
 });
 
+// Serverless instances are frozen between requests, so on Vercel the requests themselves and the cron job in
+// vercel.json apply scheduled event transitions instead of a background timer
+const schedulerEnabled = process.env.EVENT_SCHEDULER_ENABLED !== 'false';
+if (schedulerEnabled && process.env.VERCEL) {
+  app.use(applyTransitionsOnRequest(prisma));
+}
+
 // Routes
+app.use('/api/auth/oidc', oidcRoutes);
+app.use('/api/auth/2fa', twoFactorRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/cron', cronRoutes);
 app.use('/api/events', eventRoutes);
+app.use('/api/guests', guestRoutes);
+app.use('/api/invitations', invitationRoutes);
 app.use('/api/images', imageRoutes);
+app.use('/api/search', searchRoutes);
 app.use('/api/users', userRoutes);
 
 // Health check route
@@ -73,9 +107,11 @@ app.use((err: Error, req: express.Request, res: express.Response, _next: express
   LoggerLib.error(err);
   console.log(' ->>>>>> ',err);
   let message = 'Server Error', statusCode = 500;
+  let details: Record<string, unknown> | undefined;
   if (err instanceof ErrorLib) {
     message = err.message;
     statusCode = err.code;
+    details = err.details;
   } else if (err instanceof AssertionError) {
     message = err.message;
     statusCode = 400;
@@ -83,7 +119,7 @@ app.use((err: Error, req: express.Request, res: express.Response, _next: express
     message = 'Server Error';
     statusCode = 500;
   }
-  new ResponseLib(req, res).status(statusCode).json({ message });
+  new ResponseLib(req, res).status(statusCode).json({ message, ...details });
 });
 
 // Start server
@@ -93,6 +129,9 @@ const server = app.listen(PORT, () => {
   LoggerLib.log(`Health check: http://localhost:${PORT}/api/health`);
 });
 
+// Moves events between scheduled, live and ended as their dates pass
+const eventScheduler = schedulerEnabled && !process.env.VERCEL ? startEventScheduler(prisma) : undefined;
+
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (err) => {
   LoggerLib.error('Unhandled Rejection:', err);
@@ -101,6 +140,7 @@ process.on('unhandledRejection', (err) => {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   LoggerLib.log('SIGTERM received, shutting down gracefully');
+  clearInterval(eventScheduler);
   await prisma.$disconnect();
   server.close(() => {
     LoggerLib.log('Server closed');
@@ -5,14 +5,23 @@ enum HttpStatusCode {
   ['UNAUTHORIZED'] = 401,
   ['FORBIDDEN'] = 403,
   ['CONFLICT'] = 409,
+  ['TOO_MANY_REQUESTS'] = 429,
 }
 
 export default class ErrorLib extends Error {
+  public details?: Record<string, unknown>;
+
   constructor(public name: string, public code: number, public description?: string) {
     super(name);
     this.code = code;
     this.description = description;
   }
+
+  // Attach structured data that is returned to the client alongside the message
+  withDetails(details: Record<string, unknown>) {
+    this.details = details;
+    return this;
+  }
 }
 
 export class NotFound extends ErrorLib {
@@ -43,6 +52,12 @@ export class Conflict extends ErrorLib {
   }
 }
 
+export class TooManyRequests extends ErrorLib {
+  constructor(name = '', description = 'too many requests') {
+    super(name, HttpStatusCode.TOO_MANY_REQUESTS, description);
+  }
+}
+
 export class ServerError extends ErrorLib {
   constructor(name = '', description = 'server error') {
     super(name, HttpStatusCode.INTERNAL_SERVER, description);
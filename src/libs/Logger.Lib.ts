@@ -6,10 +6,22 @@ const stream = process.env.NODE_ENV === 'local' ? PinoPretty({ colorize: true, s
 
 const logger = pino({
   messageKey: 'message',
-  redact: ['*.new_password', '*.*.new_password', '*.password', '*.*.password', '*.otp', '*.*.otp']
+  // Request bodies and response bodies are logged as data.request and data.response
+  redact: [
+    '*.new_password', '*.*.new_password', '*.password', '*.*.password', '*.otp', '*.*.otp',
+    '*.*.token', '*.*.accessToken', '*.*.refreshToken',
+    '*.*.currentPassword', '*.*.newPassword',
+    '*.*.secret', '*.*.otpauthUri', '*.*.code', '*.*.recoveryCode', '*.*.recoveryCodes', '*.*.challengeToken',
+    '*.*.guestToken', '*.*.key', '*.*.inviteUrl',
+  ]
 }, stream);
 
 export default class LoggerLib {
+  // Links from emails carry their token in the query string, which would otherwise be logged with the URL
+  static redactUrl(url: string) {
+    return url.replace(/([?&]token=)[^&]*/g, '$1[Redacted]');
+  }
+
   static log(message: string | number, data?: unknown, ...args: unknown[]) {
     const user = httpContext.get('user');
     logger.info({
@@ -17,7 +17,7 @@ export default class ResponseLib {
     }
     // Log the response with request context
     LoggerLib.log('API Response', {
-      url: this._req.originalUrl || this._req.url,
+      url: LoggerLib.redactUrl(this._req.originalUrl || this._req.url),
       method: this._req.method,
       status: this._res.statusCode,
       response: data,
@@ -31,6 +31,22 @@ export default class ResponseLib {
     return this;
   }
 
+  // Send a file or other non-JSON body; only its size is logged
+  send(body: Buffer | string, contentType: string) {
+    LoggerLib.log('API Response', {
+      url: LoggerLib.redactUrl(this._req.originalUrl || this._req.url),
+      method: this._req.method,
+      status: this._res.statusCode,
+      response: `${contentType} (${Buffer.byteLength(body)} bytes)`,
+      requestId: httpContext.get('request-id'),
+      user: httpContext.get('user'),
+    });
+    const reqId = httpContext.get('request-id');
+    if (reqId) this._res.set('X-Request-ID', reqId);
+    this._res.type(contentType).send(body);
+    return this;
+  }
+
   setHeader(headers: Record<string, string>) {
     Object.entries(headers).forEach(([key, value]) => {
       this._res.set(key, value);
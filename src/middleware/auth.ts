@@ -1,7 +1,13 @@
+import crypto from 'crypto';
 import { NextFunction, Response } from 'express';
 import jwt from 'jsonwebtoken';
-import { Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
+import ErrorLib, { Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
 import { AuthRequest, JwtPayload } from '../types';
+import { authenticateApiKey } from '../utils/apiKeys';
+import { isEmailVerificationRequired } from '../utils/emailVerification';
+import { verifyGuestToken } from '../utils/guest';
+import { EventPermission, getEventAccess } from '../utils/permissions';
+import { isSessionActive } from '../utils/session';
 
 // Extract and verify JWT token from request
 export const authenticateUser = async (
@@ -11,6 +17,20 @@ export const authenticateUser = async (
 ): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+
+    // Integrations authenticate with a personal API key limited to its scopes
+    if (authHeader?.startsWith('ApiKey ')) {
+      const { user, apiKey } = await authenticateApiKey(
+        req.prisma!,
+        authHeader.slice('ApiKey '.length).trim(),
+        req.method,
+        req.originalUrl.split('?')[0]
+      );
+      req.user = user;
+      req.apiKey = apiKey;
+      next();
+      return;
+    }
     
     if (!authHeader?.startsWith('Bearer ')) {
       next(new Unauthorized('Authentication required. No token provided.'));
@@ -25,10 +45,20 @@ export const authenticateUser = async (
     }
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as JwtPayload;
+
+    // Tokens are bound to a session so logout and revocation take effect immediately
+    if (!decoded.sid || !(await isSessionActive(req.prisma!, decoded.sid))) {
+      next(new Unauthorized('Session has been revoked'));
+      return;
+    }
     
     req.user = decoded;
     next();
   } catch (error) {
+    if (error instanceof ErrorLib) {
+      next(error);
+      return;
+    }
     if (error instanceof jwt.TokenExpiredError) {
       next(new Unauthorized('Token expired'));
     }
@@ -39,6 +69,40 @@ export const authenticateUser = async (
   }
 };
 
+// Verify a guest token, which only grants access to the event it was issued for
+export const authenticateGuest = async (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader?.startsWith('Bearer ')) {
+      next(new Unauthorized('Authentication required. No token provided.'));
+      return;
+    }
+
+    const decoded = verifyGuestToken(authHeader.split(' ')[1]);
+
+    // Claimed or revoked guests have to sign in as a user from then on
+    const guest = await req.prisma?.eventGuest.findUnique({
+      where: { id: decoded.gid },
+      select: { claimedAt: true, revokedAt: true },
+    });
+
+    if (!guest || guest.claimedAt || guest.revokedAt) {
+      next(new Unauthorized('Guest access has ended'));
+      return;
+    }
+
+    req.guest = decoded;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Check if the user is the event creator
 export const isEventCreator = async (
   req: AuthRequest,
@@ -75,6 +139,39 @@ export const isEventCreator = async (
   }
 };
 
+// Check the user holds every given permission in the event from the :id route param
+export const requireEventPermission = (...permissions: EventPermission[]) => async (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      next(new Unauthorized('Authentication required'));
+      return;
+    }
+
+    const access = await getEventAccess(req.prisma!, id, userId);
+
+    if (!access) {
+      next(new NotFound('Event not found'));
+      return;
+    }
+
+    if (!permissions.every(permission => access.permissions.includes(permission))) {
+      next(new Forbidden('You do not have permission to perform this action'));
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(new Forbidden('Failed to verify permissions'));
+  }
+};
+
 // Check if the user is an event participant
 export const isEventParticipant = async (
   req: AuthRequest,
@@ -119,3 +216,57 @@ export const isEventParticipant = async (
     next(new Forbidden('Failed to verify permissions'));
   }
 };
+
+// Block unverified users when the email verification policy is enabled
+export const requireVerifiedEmail = async (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!isEmailVerificationRequired()) {
+      next();
+      return;
+    }
+
+    const userId = req.user?.id;
+
+    if (!userId) {
+      next(new Unauthorized('Authentication required'));
+      return;
+    }
+
+    const user = await req.prisma?.user.findUnique({
+      where: { id: userId },
+      select: { emailVerifiedAt: true },
+    });
+
+    if (!user?.emailVerifiedAt) {
+      next(new Forbidden('Please verify your email address to perform this action'));
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(new Forbidden('Failed to verify permissions'));
+  }
+};
+
+// Scheduled jobs authenticate with the shared CRON_SECRET, which Vercel Cron sends as a bearer token
+export const authenticateCron = (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+): void => {
+  const secret = process.env.CRON_SECRET;
+  const token = req.headers.authorization?.startsWith('Bearer ') ? req.headers.authorization.slice('Bearer '.length) : '';
+
+  // Hashing first gives equal lengths, so the comparison takes the same time however much of the token matches
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  if (!secret || !crypto.timingSafeEqual(digest(token), digest(secret))) {
+    next(new Unauthorized('Invalid cron secret'));
+    return;
+  }
+
+  next();
+};
@@ -1,5 +1,18 @@
 import express from 'express';
-import { getCurrentUser, login, register } from '../controllers/auth';
+import {
+    consumeMagicLink,
+    forgotPassword,
+    getCurrentUser,
+    login,
+    logout,
+    logoutAllDevices,
+    refresh,
+    register,
+    requestMagicLink,
+    resendVerificationEmail,
+    resetPassword,
+    verifyEmail,
+} from '../controllers/auth';
 import { authenticateUser } from '../middleware/auth';
 
 const router = express.Router();
@@ -65,7 +78,7 @@ router.post('/register', register);
  *     tags:
  *       - Authentication
  *     summary: Login user
- *     description: Authenticate a user with email and password
+ *     description: Authenticate a user with email and password. Repeated failures lock the account and IP out for an exponentially increasing period.
  *     requestBody:
  *       required: true
  *       content:
@@ -84,15 +97,15 @@ router.post('/register', register);
  *                 format: password
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful. Users with two-factor authentication enabled instead receive `twoFactorRequired` and a `challengeToken` to complete via /api/auth/2fa/verify.
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/AuthResponse'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
- *       404:
- *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         description: Too many failed attempts from this account or IP; try again later
  */
 router.post('/login', login);
 
@@ -120,4 +133,249 @@ router.post('/login', login);
  */
 router.get('/me', authenticateUser, getCurrentUser);
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Refresh the access token
+ *     description: Exchanges a refresh token for a new access/refresh token pair. Each refresh token can only be used once; replaying an old one revokes the whole session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New token pair issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/refresh', refresh);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Log out the current session
+ *     description: Revokes the session the access token was issued for
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/logout', authenticateUser, logout);
+
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Log out of all devices
+ *     description: Revokes every session belonging to the authenticated user
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out of all devices successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/logout-all', authenticateUser, logoutAllDevices);
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Request a password reset email
+ *     description: Emails a single-use, time-limited reset link if an account exists. The response is the same whether or not the email is registered.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Reset email sent if the account exists
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/forgot-password', forgotPassword);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Reset password with a reset token
+ *     description: Sets a new password using the token from the reset email and logs out every existing session
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: New password (min 6 characters)
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/reset-password', resetPassword);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: Verify an email address
+ *     description: Confirms the email address using the token from the verification email
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.get('/verify-email', verifyEmail);
+
+/**
+ * @swagger
+ * /api/auth/verify-email/resend:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Resend the verification email
+ *     description: Sends a fresh verification link to the authenticated user. Limited to one request per minute and a few per hour.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         description: Too many verification emails requested
+ */
+router.post('/verify-email/resend', authenticateUser, resendVerificationEmail);
+
+/**
+ * @swagger
+ * /api/auth/magic-link:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Request a passwordless sign-in link
+ *     description: Emails a one-time sign-in link. When requested from an event, the user joins that event once the link is used.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               name:
+ *                 type: string
+ *                 description: Display name used if a new account is created
+ *               eventId:
+ *                 type: string
+ *                 description: Event to join after signing in
+ *               joinCode:
+ *                 type: string
+ *                 description: The event's join code; enough on its own to find the event
+ *     responses:
+ *       200:
+ *         description: Sign-in link sent
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         description: Too many sign-in links requested
+ */
+router.post('/magic-link', requestMagicLink);
+
+/**
+ * @swagger
+ * /api/auth/magic-link/verify:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Sign in with a magic link
+ *     description: Consumes the token from a sign-in link. Logs in the existing user or creates a lightweight account, and joins the event the link was requested from.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Signed in successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/magic-link/verify', consumeMagicLink);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,32 @@
+import express from 'express';
+import { runEventTransitions } from '../controllers/cron';
+import { authenticateCron } from '../middleware/auth';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/cron/event-transitions:
+ *   get:
+ *     tags:
+ *       - Cron
+ *     summary: Apply scheduled event transitions
+ *     description: Moves events to LIVE or ENDED as their dates pass. Called daily by Vercel Cron, where the in-process scheduler doesn't run, to catch up on everything that became due. Authenticated with CRON_SECRET as a bearer token.
+ *     responses:
+ *       200:
+ *         description: How many events went live and how many ended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 started:
+ *                   type: integer
+ *                 ended:
+ *                   type: integer
+ *       401:
+ *         description: Missing or invalid cron secret
+ */
+router.get('/event-transitions', authenticateCron, runEventTransitions);
+
+export default router;
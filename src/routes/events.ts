@@ -1,17 +1,52 @@
 import express from 'express';
 import {
+    cancelUploadsReopen,
     createEvent,
     deleteEvent,
     getAllEvents,
     getEventById,
+    getEventQrCode,
+    getMyUploadQuota,
     getUserEvents,
     joinEvent,
+    joinEventByCode,
     leaveEvent,
+    lockGallery,
+    reopenUploads,
+    rotateJoinCode,
+    unlockGallery,
     updateEvent,
+    updateEventStatus,
     uploadEventCoverImage,
 } from '../controllers/events';
-import { authenticateUser, isEventCreator } from '../middleware/auth';
+import {
+    createEmailInvitations,
+    createInvitationLink,
+    getEventInvitations,
+    revokeInvitation,
+} from '../controllers/invitations';
+import {
+    approveJoinRequest,
+    cancelJoinRequest,
+    declineJoinRequest,
+    getJoinRequests,
+    getMyJoinRequest,
+    reviewJoinRequestsBulk,
+} from '../controllers/joinRequests';
+import {
+    banUser,
+    getEventBans,
+    getEventParticipants,
+    getEventWaitlist,
+    getMyEventPermissions,
+    removeParticipant,
+    unbanUser,
+    updateParticipantRole,
+} from '../controllers/participants';
+import { getEventTags } from '../controllers/tags';
+import { authenticateUser, isEventCreator, requireEventPermission, requireVerifiedEmail } from '../middleware/auth';
 import upload from '../middleware/upload';
+import { EventPermission } from '../utils/permissions';
 
 const router = express.Router();
 
@@ -40,6 +75,22 @@ const router = express.Router();
  *           type: boolean
  *         isPublicGallery:
  *           type: boolean
+ *         allowGuestUploads:
+ *           type: boolean
+ *           description: Lets anonymous guests upload with the join code
+ *         requireApproval:
+ *           type: boolean
+ *           description: Join requests wait for the organizer's approval
+ *         joinCode:
+ *           type: string
+ *           description: Generated by the server when the event allows joining or guest uploads
+ *         joinCodeExpiresAt:
+ *           type: string
+ *           format: date-time
+ *         joinCodeMaxUses:
+ *           type: integer
+ *         joinCodeUseCount:
+ *           type: integer
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -64,15 +115,32 @@ const router = express.Router();
  *     description: Retrieve all public events or user's events if authenticated
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventSearch'
+ *       - $ref: '#/components/parameters/EventFrom'
+ *       - $ref: '#/components/parameters/EventTo'
+ *       - $ref: '#/components/parameters/EventVisibility'
+ *       - $ref: '#/components/parameters/EventGalleryStyle'
+ *       - $ref: '#/components/parameters/EventCreator'
+ *       - $ref: '#/components/parameters/EventPhase'
+ *       - $ref: '#/components/parameters/EventSort'
+ *       - $ref: '#/components/parameters/EventOrder'
+ *       - $ref: '#/components/parameters/EventCursor'
+ *       - $ref: '#/components/parameters/EventLimit'
  *     responses:
  *       200:
- *         description: List of events
+ *         description: One page of events
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Event'
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Event'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/EventPagination'
  */
 router.get('/', getAllEvents);
 
@@ -108,8 +176,21 @@ router.get('/', getAllEvents);
  *                 format: date-time
  *               isPrivate:
  *                 type: boolean
+ *               draft:
+ *                 type: boolean
+ *                 description: Create the event as a draft that only its organizers can see
  *               isPublicGallery:
  *                 type: boolean
+ *               allowGuestUploads:
+ *                 type: boolean
+ *               requireApproval:
+ *                 type: boolean
+ *               joinCodeExpiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               joinCodeMaxUses:
+ *                 type: integer
+ *                 minimum: 1
  *     responses:
  *       201:
  *         description: Event created successfully
@@ -118,7 +199,7 @@ router.get('/', getAllEvents);
  *             schema:
  *               $ref: '#/components/schemas/Event'
  */
-router.post('/', authenticateUser, createEvent);
+router.post('/', authenticateUser, requireVerifiedEmail, createEvent);
 
 /**
  * @swagger
@@ -161,7 +242,7 @@ router.post('/', authenticateUser, createEvent);
  *             schema:
  *               $ref: '#/components/schemas/Event'
  */
-router.put('/:id', authenticateUser, isEventCreator, updateEvent);
+router.put('/:id', authenticateUser, requireEventPermission(EventPermission.EDIT_EVENT), updateEvent);
 
 /**
  * @swagger
@@ -202,37 +283,55 @@ router.delete('/:id', authenticateUser, isEventCreator, deleteEvent);
  *     responses:
  *       200:
  *         description: Successfully joined event
+ *       202:
+ *         description: The event requires approval and a join request was created, or the event is full and the user was waitlisted
+ *       403:
+ *         description: The event is invite-only, closed, or the join code is wrong
  */
 router.post('/:id/join', authenticateUser, joinEvent);
 
 /**
  * @swagger
- * /api/events/{id}/leave:
+ * /api/events/join:
  *   post:
  *     tags:
  *       - Events
- *     summary: Leave an event
+ *     summary: Join an event by its join code
+ *     description: Finds the event from the code alone, so the event id isn't needed. Dashes, spaces and case are ignored.
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - joinCode
+ *             properties:
+ *               joinCode:
+ *                 type: string
+ *                 example: ABCD-EFGH
  *     responses:
  *       200:
- *         description: Successfully left event
+ *         description: Successfully joined event
+ *       202:
+ *         description: The event requires approval and a join request was created, or the event is full and the user was waitlisted
+ *       403:
+ *         description: The code has expired or reached its usage limit, or the event is closed
+ *       404:
+ *         description: No event has this join code
  */
-router.post('/:id/leave', authenticateUser, leaveEvent);
+router.post('/join', authenticateUser, joinEventByCode);
 
 /**
  * @swagger
- * /api/events/{id}/visibility:
- *   put:
+ * /api/events/{id}/join-code/rotate:
+ *   post:
  *     tags:
  *       - Events
- *     summary: Update event visibility settings
+ *     summary: Generate a new join code
+ *     description: Replaces the event's join code; the old one stops working immediately and the usage count is reset
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -242,30 +341,103 @@ router.post('/:id/leave', authenticateUser, leaveEvent);
  *         schema:
  *           type: string
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
  *             properties:
- *               isPrivate:
- *                 type: boolean
- *               isPublicGallery:
- *                 type: boolean
+ *               joinCodeExpiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               joinCodeMaxUses:
+ *                 type: integer
+ *                 minimum: 1
+ *                 nullable: true
+ *                 description: Null for unlimited
  *     responses:
  *       200:
- *         description: Event visibility updated
+ *         description: The new join code and its limits
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Requires the MANAGE_PARTICIPANTS permission
  */
-router.put('/:id/visibility', authenticateUser, isEventCreator, updateEvent);
+router.post(
+  '/:id/join-code/rotate',
+  authenticateUser,
+  requireEventPermission(EventPermission.MANAGE_PARTICIPANTS),
+  rotateJoinCode
+);
 
 /**
  * @swagger
- * /api/events/{id}/cover:
+ * /api/events/{id}/qr:
+ *   get:
+ *     tags:
+ *       - Events
+ *     summary: Get a QR code for the event's join link
+ *     description: |
+ *       Renders a QR code pointing at the join link for the current join code.
+ *       PNG is the bare QR code; SVG adds the event name and the readable code unless branding is turned off;
+ *       PDF is a printable A6 table card with the cover image, event name, QR code and code.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [png, svg, pdf]
+ *           default: png
+ *       - in: query
+ *         name: size
+ *         description: Width of the PNG in pixels
+ *         schema:
+ *           type: integer
+ *           minimum: 128
+ *           maximum: 2048
+ *           default: 512
+ *       - in: query
+ *         name: branding
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *     responses:
+ *       200:
+ *         description: The rendered QR code
+ *         content:
+ *           image/png: {}
+ *           image/svg+xml: {}
+ *           application/pdf: {}
+ *       400:
+ *         description: Unknown format, or the event has no join code
+ *       403:
+ *         description: Requires the MANAGE_PARTICIPANTS permission
+ */
+router.get(
+  '/:id/qr',
+  authenticateUser,
+  requireEventPermission(EventPermission.MANAGE_PARTICIPANTS),
+  getEventQrCode
+);
+
+/**
+ * @swagger
+ * /api/events/{id}/status:
  *   post:
  *     tags:
  *       - Events
- *     summary: Upload event cover media
- *     description: Upload a cover image or video for an event (only creator)
+ *     summary: Change the event's lifecycle status
+ *     description: |
+ *       Allowed transitions: DRAFT to SCHEDULED or LIVE (publish); SCHEDULED to DRAFT, LIVE or ENDED;
+ *       LIVE to ENDED; ENDED to ARCHIVED; ARCHIVED to ENDED.
+ *       Scheduled events go live at their start date and live events end at their end date automatically.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -277,27 +449,78 @@ router.put('/:id/visibility', authenticateUser, isEventCreator, updateEvent);
  *     requestBody:
  *       required: true
  *       content:
- *         multipart/form-data:
+ *         application/json:
  *           schema:
  *             type: object
  *             required:
- *               - image
+ *               - status
  *             properties:
- *               image:
+ *               status:
  *                 type: string
- *                 format: binary
- *                 description: Image or video file for the event cover
+ *                 enum: [DRAFT, SCHEDULED, LIVE, ENDED, ARCHIVED]
+ *     responses:
+ *       200:
+ *         description: The previous and new status
+ *       400:
+ *         description: The transition is not allowed
+ *       403:
+ *         description: Requires the EDIT_EVENT permission
+ *       409:
+ *         description: The status changed while the request was being handled
  */
-router.post('/:id/cover-image', authenticateUser, isEventCreator, upload.single('coverImage'), uploadEventCoverImage);
+router.post('/:id/status', authenticateUser, requireEventPermission(EventPermission.EDIT_EVENT), updateEventStatus);
 
 /**
  * @swagger
- * /api/events/{id}/visibility:
- *   patch:
- *     deprecated: true
+ * /api/events/{id}/gallery/lock:
+ *   post:
  *     tags:
  *       - Events
- *     summary: Update event visibility
+ *     summary: Lock the event's gallery
+ *     description: Makes the event read-only. Nobody can upload, comment or react, and only moderators can remove media. Any upload reopening is cancelled.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The gallery is locked; returns the upload window
+ *       403:
+ *         description: Requires the EDIT_EVENT permission
+ *   delete:
+ *     tags:
+ *       - Events
+ *     summary: Unlock the event's gallery
+ *     description: Uploads follow the event's upload window again
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The gallery is unlocked; returns the upload window
+ *       403:
+ *         description: Requires the EDIT_EVENT permission
+ */
+router.post('/:id/gallery/lock', authenticateUser, requireEventPermission(EventPermission.EDIT_EVENT), lockGallery);
+router.delete('/:id/gallery/lock', authenticateUser, requireEventPermission(EventPermission.EDIT_EVENT), unlockGallery);
+
+/**
+ * @swagger
+ * /api/events/{id}/uploads/reopen:
+ *   post:
+ *     tags:
+ *       - Events
+ *     summary: Reopen uploads outside the upload window
+ *     description: Accepts uploads for the given number of hours even if the event's upload window has closed or not opened yet
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -312,70 +535,987 @@ router.post('/:id/cover-image', authenticateUser, isEventCreator, upload.single(
  *           schema:
  *             type: object
  *             properties:
- *               isPrivate:
- *                 type: boolean
- *               isPublicGallery:
- *                 type: boolean
+ *               hours:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 720
+ *                 default: 24
  *     responses:
  *       200:
- *         description: Event visibility updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Event'
+ *         description: Uploads are reopened; returns the upload window
+ *       400:
+ *         description: Invalid hours, or the gallery is locked
+ *       403:
+ *         description: Requires the EDIT_EVENT permission
+ *   delete:
+ *     tags:
+ *       - Events
+ *     summary: End an upload reopening early
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Uploads follow the upload window again
+ *       403:
+ *         description: Requires the EDIT_EVENT permission
  */
-router.patch('/:id/visibility', authenticateUser, isEventCreator, updateEvent);
+router.post('/:id/uploads/reopen', authenticateUser, requireEventPermission(EventPermission.EDIT_EVENT), reopenUploads);
+router.delete('/:id/uploads/reopen', authenticateUser, requireEventPermission(EventPermission.EDIT_EVENT), cancelUploadsReopen);
 
 /**
  * @swagger
- * /api/events/my-events:
+ * /api/events/{id}/join-request:
  *   get:
  *     tags:
- *       - Events
- *     summary: Get authenticated user's events
- *     description: Retrieve all events that the authenticated user has created or joined
+ *       - Join Requests
+ *     summary: Get your own join request
+ *     description: Returns the current user's participation status for the event, e.g. PENDING while waiting for approval
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
- *         description: User's events retrieved successfully
+ *         description: Participation status
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/join-request', authenticateUser, getMyJoinRequest);
+
+/**
+ * @swagger
+ * /api/events/{id}/join-request:
+ *   delete:
+ *     tags:
+ *       - Join Requests
+ *     summary: Cancel your pending join request
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Join request cancelled
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/join-request', authenticateUser, cancelJoinRequest);
+
+/**
+ * @swagger
+ * /api/events/{id}/join-requests:
+ *   get:
+ *     tags:
+ *       - Join Requests
+ *     summary: List pending join requests
+ *     description: Oldest requests first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pending join requests
+ *       403:
+ *         description: Requires the MANAGE_PARTICIPANTS permission
+ */
+router.get('/:id/join-requests', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), getJoinRequests);
+
+/**
+ * @swagger
+ * /api/events/{id}/join-requests/bulk:
+ *   post:
+ *     tags:
+ *       - Join Requests
+ *     summary: Approve or decline several join requests
+ *     description: When approving, requests are accepted oldest first until the event is full; the rest are returned as skipped
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userIds
+ *               - action
+ *             properties:
+ *               userIds:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *               action:
+ *                 type: string
+ *                 enum: [approve, decline]
+ *     responses:
+ *       200:
+ *         description: Requests reviewed
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 status:
- *                   type: string
- *                   example: success
  *                 message:
  *                   type: string
- *                   example: User events fetched successfully
- *                 data:
- *                   type: object
- *                   properties:
- *                     created:
- *                       type: array
- *                       items:
- *                         $ref: '#/components/schemas/Event'
- *                     joined:
- *                       type: array
- *                       items:
- *                         $ref: '#/components/schemas/Event'
- *       401:
- *         $ref: '#/components/responses/UnauthorizedError'
+ *                 updated:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 skipped:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  */
-router.get('/my-events', authenticateUser, getUserEvents);
+router.post('/:id/join-requests/bulk', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), reviewJoinRequestsBulk);
 
 /**
  * @swagger
- * /api/events/user:
- *   get:
+ * /api/events/{id}/join-requests/{userId}/approve:
+ *   post:
  *     tags:
- *       - Events
- *     summary: Get authenticated user's events (alternative route)
- *     description: Retrieve all events that the authenticated user has created or joined
+ *       - Join Requests
+ *     summary: Approve a join request
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Join request approved
+ *       400:
+ *         description: The event is full
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/join-requests/:userId/approve', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), approveJoinRequest);
+
+/**
+ * @swagger
+ * /api/events/{id}/join-requests/{userId}/decline:
+ *   post:
+ *     tags:
+ *       - Join Requests
+ *     summary: Decline a join request
+ *     description: Declined users cannot request again while the event requires approval
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Join request declined
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/join-requests/:userId/decline', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), declineJoinRequest);
+
+/**
+ * @swagger
+ * /api/events/{id}/invitations:
+ *   get:
+ *     tags:
+ *       - Invitations
+ *     summary: List an event's invitations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email invitations and invite links, including revoked and expired ones
+ *       403:
+ *         description: Requires the MANAGE_PARTICIPANTS permission
+ */
+router.get('/:id/invitations', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), getEventInvitations);
+
+/**
+ * @swagger
+ * /api/events/{id}/invitations:
+ *   post:
+ *     tags:
+ *       - Invitations
+ *     summary: Invite people by email
+ *     description: Emails each address a single-use invitation that only that address can accept. Re-inviting an address replaces its pending invitation.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - emails
+ *             properties:
+ *               emails:
+ *                 type: array
+ *                 maxItems: 50
+ *                 items:
+ *                   type: string
+ *                   format: email
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *     responses:
+ *       201:
+ *         description: Invitations sent
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/:id/invitations', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), createEmailInvitations);
+
+/**
+ * @swagger
+ * /api/events/{id}/invitations/link:
+ *   post:
+ *     tags:
+ *       - Invitations
+ *     summary: Create an invite link
+ *     description: Anyone signed in with the link can join until it expires, is revoked or runs out of uses. The link is only returned once.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               maxUses:
+ *                 type: integer
+ *                 nullable: true
+ *                 minimum: 1
+ *                 default: 1
+ *                 description: Null for unlimited uses
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *     responses:
+ *       201:
+ *         description: Invite link created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 inviteUrl:
+ *                   type: string
+ *                 token:
+ *                   type: string
+ *                 maxUses:
+ *                   type: integer
+ *                 expiresAt:
+ *                   type: string
+ *                   format: date-time
+ */
+router.post('/:id/invitations/link', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), createInvitationLink);
+
+/**
+ * @swagger
+ * /api/events/{id}/invitations/{invitationId}:
+ *   delete:
+ *     tags:
+ *       - Invitations
+ *     summary: Revoke an invitation
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation revoked
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/invitations/:invitationId', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), revokeInvitation);
+
+/**
+ * @swagger
+ * /api/events/{id}/permissions:
+ *   get:
+ *     tags:
+ *       - Participants
+ *     summary: Get your role and permissions in an event
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The current user's role and permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 isCreator:
+ *                   type: boolean
+ *                 role:
+ *                   type: string
+ *                   nullable: true
+ *                   enum: [ADMIN, MODERATOR, ATTENDEE]
+ *                 permissions:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                     enum: [EDIT_EVENT, CHANGE_COVER, MANAGE_PARTICIPANTS, MODERATE_MEDIA, MANAGE_ROLES]
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/permissions', authenticateUser, getMyEventPermissions);
+
+/**
+ * @swagger
+ * /api/events/{id}/participants/{userId}/role:
+ *   put:
+ *     tags:
+ *       - Participants
+ *     summary: Promote or demote a participant
+ *     description: ADMINs (co-hosts) have every permission, MODERATORs can manage participants and moderate media. The creator's role cannot be changed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, MODERATOR, ATTENDEE]
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Requires the MANAGE_ROLES permission
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.put(
+  '/:id/participants/:userId/role',
+  authenticateUser,
+  requireEventPermission(EventPermission.MANAGE_ROLES),
+  updateParticipantRole
+);
+
+/**
+ * @swagger
+ * /api/events/{id}/participants:
+ *   get:
+ *     tags:
+ *       - Participants
+ *     summary: List an event's participants
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, JOINED, DECLINED, LEFT]
+ *           default: JOINED
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [ADMIN, MODERATOR, ATTENDEE]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches the participant's name or email
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Participants with pagination
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Requires the MANAGE_PARTICIPANTS permission
+ */
+router.get(
+  '/:id/participants',
+  authenticateUser,
+  requireEventPermission(EventPermission.MANAGE_PARTICIPANTS),
+  getEventParticipants
+);
+
+/**
+ * @swagger
+ * /api/events/{id}/participants/{userId}:
+ *   delete:
+ *     tags:
+ *       - Participants
+ *     summary: Remove a participant
+ *     description: Marks the participant as LEFT, or declines their pending join request. They have to pass the join checks again to come back. Optionally bans them so they cannot rejoin, and hides or deletes their media in the event. Only admins can remove co-hosts and moderators.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ban
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *         description: Ban reason, kept on the ban list
+ *       - in: query
+ *         name: media
+ *         schema:
+ *           type: string
+ *           enum: [keep, hide, delete]
+ *           default: keep
+ *     responses:
+ *       200:
+ *         description: Participant removed
+ *       403:
+ *         description: Requires the MANAGE_PARTICIPANTS permission
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete(
+  '/:id/participants/:userId',
+  authenticateUser,
+  requireEventPermission(EventPermission.MANAGE_PARTICIPANTS),
+  removeParticipant
+);
+
+/**
+ * @swagger
+ * /api/events/{id}/waitlist:
+ *   get:
+ *     tags:
+ *       - Participants
+ *     summary: List the event's waitlist
+ *     description: Users waiting for a spot, in the order they will be promoted when someone leaves or is removed
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The waitlist with each user's position
+ *       403:
+ *         description: Requires the MANAGE_PARTICIPANTS permission
+ */
+router.get('/:id/waitlist', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), getEventWaitlist);
+
+/**
+ * @swagger
+ * /api/events/{id}/bans:
+ *   get:
+ *     tags:
+ *       - Participants
+ *     summary: List users banned from an event
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The ban list
+ *       403:
+ *         description: Requires the MANAGE_PARTICIPANTS permission
+ */
+router.get('/:id/bans', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), getEventBans);
+
+/**
+ * @swagger
+ * /api/events/{id}/bans:
+ *   post:
+ *     tags:
+ *       - Participants
+ *     summary: Ban a user from an event
+ *     description: Removes the user from the event if they are in it and stops them from joining again
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *               media:
+ *                 type: string
+ *                 enum: [keep, hide, delete]
+ *                 default: keep
+ *     responses:
+ *       201:
+ *         description: User banned
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Requires the MANAGE_PARTICIPANTS permission
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/:id/bans', authenticateUser, requireEventPermission(EventPermission.MANAGE_PARTICIPANTS), banUser);
+
+/**
+ * @swagger
+ * /api/events/{id}/bans/{userId}:
+ *   delete:
+ *     tags:
+ *       - Participants
+ *     summary: Lift a ban
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Ban lifted
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete(
+  '/:id/bans/:userId',
+  authenticateUser,
+  requireEventPermission(EventPermission.MANAGE_PARTICIPANTS),
+  unbanUser
+);
+
+/**
+ * @swagger
+ * /api/events/{id}/leave:
+ *   post:
+ *     tags:
+ *       - Events
+ *     summary: Leave an event
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Successfully left event
+ */
+router.post('/:id/leave', authenticateUser, leaveEvent);
+
+/**
+ * @swagger
+ * /api/events/{id}/my-quota:
+ *   get:
+ *     tags:
+ *       - Events
+ *     summary: Get my remaining uploads for an event
+ *     description: How many media items the current participant has uploaded and how many are left. Hosts and moderators are exempt from the limit.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The participant's upload quota
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 limit:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Null when there is no limit
+ *                 used:
+ *                   type: integer
+ *                   description: Uploads still visible in the gallery; media hidden by moderators doesn't count
+ *                 remaining:
+ *                   type: integer
+ *                   nullable: true
+ *                 exempt:
+ *                   type: boolean
+ *       403:
+ *         description: Not a participant of this event
+ */
+router.get('/:id/my-quota', authenticateUser, getMyUploadQuota);
+
+/**
+ * @swagger
+ * /api/events/{id}/tags:
+ *   get:
+ *     tags:
+ *       - Tags
+ *     summary: Get the event's tag cloud
+ *     description: Tags on the event's visible media with how many items carry each, most used first. Use a tag with the media endpoint's tag filter to show a sub-gallery.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: The tag cloud
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         example: firstdance
+ *                       count:
+ *                         type: integer
+ *       403:
+ *         description: The event's media isn't visible to the user
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:id/tags', authenticateUser, getEventTags);
+
+/**
+ * @swagger
+ * /api/events/{id}/visibility:
+ *   put:
+ *     tags:
+ *       - Events
+ *     summary: Update event visibility settings
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               isPrivate:
+ *                 type: boolean
+ *               isPublicGallery:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Event visibility updated
+ */
+router.put('/:id/visibility', authenticateUser, requireEventPermission(EventPermission.EDIT_EVENT), updateEvent);
+
+/**
+ * @swagger
+ * /api/events/{id}/cover:
+ *   post:
+ *     tags:
+ *       - Events
+ *     summary: Upload event cover media
+ *     description: Upload a cover image or video for an event (requires the CHANGE_COVER permission)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image or video file for the event cover
+ */
+router.post(
+  '/:id/cover-image',
+  authenticateUser,
+  requireEventPermission(EventPermission.CHANGE_COVER),
+  upload.single('coverImage'),
+  uploadEventCoverImage
+);
+
+/**
+ * @swagger
+ * /api/events/{id}/visibility:
+ *   patch:
+ *     deprecated: true
+ *     tags:
+ *       - Events
+ *     summary: Update event visibility
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               isPrivate:
+ *                 type: boolean
+ *               isPublicGallery:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Event visibility updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Event'
+ */
+router.patch('/:id/visibility', authenticateUser, requireEventPermission(EventPermission.EDIT_EVENT), updateEvent);
+
+/**
+ * @swagger
+ * /api/events/my-events:
+ *   get:
+ *     tags:
+ *       - Events
+ *     summary: Get authenticated user's events
+ *     description: Retrieve the events the authenticated user has created or joined, one page at a time
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventSearch'
+ *       - $ref: '#/components/parameters/EventFrom'
+ *       - $ref: '#/components/parameters/EventTo'
+ *       - $ref: '#/components/parameters/EventVisibility'
+ *       - $ref: '#/components/parameters/EventGalleryStyle'
+ *       - $ref: '#/components/parameters/EventCreator'
+ *       - $ref: '#/components/parameters/EventPhase'
+ *       - $ref: '#/components/parameters/EventSort'
+ *       - $ref: '#/components/parameters/EventOrder'
+ *       - $ref: '#/components/parameters/EventCursor'
+ *       - $ref: '#/components/parameters/EventLimit'
+ *     responses:
+ *       200:
+ *         description: User's events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: User events fetched successfully
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     created:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Event'
+ *                     joined:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Event'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/EventPagination'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/my-events', authenticateUser, getUserEvents);
+
+/**
+ * @swagger
+ * /api/events/user:
+ *   get:
+ *     tags:
+ *       - Events
+ *     summary: Get authenticated user's events (alternative route)
+ *     description: Retrieve the events the authenticated user has created or joined, one page at a time
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventSearch'
+ *       - $ref: '#/components/parameters/EventFrom'
+ *       - $ref: '#/components/parameters/EventTo'
+ *       - $ref: '#/components/parameters/EventVisibility'
+ *       - $ref: '#/components/parameters/EventGalleryStyle'
+ *       - $ref: '#/components/parameters/EventCreator'
+ *       - $ref: '#/components/parameters/EventPhase'
+ *       - $ref: '#/components/parameters/EventSort'
+ *       - $ref: '#/components/parameters/EventOrder'
+ *       - $ref: '#/components/parameters/EventCursor'
+ *       - $ref: '#/components/parameters/EventLimit'
  *     responses:
  *       200:
  *         description: User's events retrieved successfully
@@ -401,6 +1541,8 @@ router.get('/my-events', authenticateUser, getUserEvents);
  *                       type: array
  *                       items:
  *                         $ref: '#/components/schemas/Event'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/EventPagination'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
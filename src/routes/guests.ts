@@ -0,0 +1,302 @@
+import express from 'express';
+import { claimGuest, createGuestSession, getGuestSession } from '../controllers/guests';
+import { getEventMedia, updateImage, uploadImageToEvent } from '../controllers/images';
+import { addTagsToImage, removeTagFromImage } from '../controllers/tags';
+import { authenticateGuest, authenticateUser } from '../middleware/auth';
+import upload from '../middleware/upload';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/guests/sessions:
+ *   post:
+ *     tags:
+ *       - Guests
+ *     summary: Start an anonymous guest session
+ *     description: Exchanges an event join code and a display name for a guest token that can only upload to and view that event. The event must allow guest uploads.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - joinCode
+ *               - displayName
+ *             properties:
+ *               joinCode:
+ *                 type: string
+ *               displayName:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Guest session created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 guest:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     eventId:
+ *                       type: string
+ *                     displayName:
+ *                       type: string
+ *                 event:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     name:
+ *                       type: string
+ *                 guestToken:
+ *                   type: string
+ *                 expiresIn:
+ *                   type: integer
+ *                   description: Guest token lifetime in seconds
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: The event does not allow guest access
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         description: Too many invalid join codes
+ */
+router.post('/sessions', createGuestSession);
+
+/**
+ * @swagger
+ * /api/guests/me:
+ *   get:
+ *     tags:
+ *       - Guests
+ *     summary: Get the current guest
+ *     description: Send the guest token as a bearer token
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The guest, their event and upload count
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/me', authenticateGuest, getGuestSession);
+
+/**
+ * @swagger
+ * /api/guests/upload:
+ *   post:
+ *     tags:
+ *       - Guests
+ *     summary: Upload media as a guest
+ *     description: Uploads an image or video to the guest's event, attributed to the guest
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Media uploaded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Media'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: The event no longer accepts guest uploads
+ */
+router.post('/upload', authenticateGuest, upload.single('file'), uploadImageToEvent);
+
+/**
+ * @swagger
+ * /api/guests/events/{eventId}/media:
+ *   get:
+ *     tags:
+ *       - Guests
+ *     summary: View the guest's event media
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: List of media items with pagination
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: The guest token is for a different event
+ */
+router.get('/events/:eventId/media', authenticateGuest, getEventMedia);
+
+/**
+ * @swagger
+ * /api/guests/media/{id}:
+ *   patch:
+ *     tags:
+ *       - Guests
+ *     summary: Edit the description of the guest's own upload
+ *     description: Hashtags in the description are kept in sync with the media's tags; tags added by hand are left alone.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - description
+ *             properties:
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The updated description and tags
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not uploaded by this guest, or the gallery is locked
+ */
+router.patch('/media/:id', authenticateGuest, updateImage);
+
+/**
+ * @swagger
+ * /api/guests/media/{id}/tags:
+ *   post:
+ *     tags:
+ *       - Guests
+ *     summary: Tag media in the guest's event
+ *     description: Adds tags to media; tags already on it are ignored. Up to 30 tags per item.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: All of the media's tags
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: The media is not in the guest's event
+ */
+router.post('/media/:id/tags', authenticateGuest, addTagsToImage);
+
+/**
+ * @swagger
+ * /api/guests/media/{id}/tags/{tag}:
+ *   delete:
+ *     tags:
+ *       - Guests
+ *     summary: Remove a tag from the guest's own upload
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: tag
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The media's remaining tags
+ *       403:
+ *         description: Not uploaded by this guest
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/media/:id/tags/:tag', authenticateGuest, removeTagFromImage);
+
+/**
+ * @swagger
+ * /api/guests/claim:
+ *   post:
+ *     tags:
+ *       - Guests
+ *     summary: Claim a guest identity
+ *     description: Moves the guest's uploads to the signed-in user and adds them to the event, or its waitlist when it is full. The join outcome is returned as joinStatus, or joinError when the user can't join. The guest token stops working afterwards.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - guestToken
+ *             properties:
+ *               guestToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Guest uploads claimed
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: The guest identity was already claimed
+ */
+router.post('/claim', authenticateUser, claimGuest);
+
+export default router;
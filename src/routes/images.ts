@@ -1,13 +1,23 @@
 import express from 'express';
+import {
+    createComment,
+    deleteComment,
+    getCommentReplies,
+    getImageComments,
+    updateComment,
+} from '../controllers/comments';
 import {
     deleteImageById,
     getEventImages,
     getEventMedia,
     getRecentImages,
     getUserGallery,
+    updateImage,
     uploadImageToEvent,
 } from '../controllers/images';
-import { authenticateUser } from '../middleware/auth';
+import { getImageReactions, toggleReaction } from '../controllers/reactions';
+import { addTagsToImage, removeTagFromImage } from '../controllers/tags';
+import { authenticateUser, requireVerifiedEmail } from '../middleware/auth';
 import upload from '../middleware/upload';
 
 const router = express.Router();
@@ -35,6 +45,15 @@ router.use(authenticateUser);
  *         createdAt:
  *           type: string
  *           format: date-time
+ *         commentCount:
+ *           type: integer
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [firstdance, speeches]
+ *         reactions:
+ *           $ref: '#/components/schemas/ReactionSummary'
  *         uploader:
  *           type: object
  *           properties:
@@ -44,6 +63,20 @@ router.use(authenticateUser);
  *               type: string
  *             avatar:
  *               type: string
+ *     ReactionSummary:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *         counts:
+ *           type: object
+ *           additionalProperties:
+ *             type: integer
+ *           example: { "❤️": 12, "🔥": 3 }
+ *         reactedByMe:
+ *           type: array
+ *           items:
+ *             type: string
  */
 
 /**
@@ -81,8 +114,12 @@ router.use(authenticateUser);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Media'
+ *       403:
+ *         description: Not a participant, uploads are outside the event's upload window, or the gallery is locked; the response includes the upload window
+ *       409:
+ *         description: The participant has reached the event's upload limit; the response includes their quota
  */
-router.post('/upload', authenticateUser, upload.single('file'), uploadImageToEvent);
+router.post('/upload', authenticateUser, requireVerifiedEmail, upload.single('file'), uploadImageToEvent);
 
 /**
  * @swagger
@@ -141,6 +178,18 @@ router.get('/event/:eventId', getEventImages);
  *           maximum: 100
  *           default: 20
  *         description: Number of items per page
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [recent, loved]
+ *           default: recent
+ *         description: Newest first, or most reactions first
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *         description: Only media with this tag, with or without the leading #
  *     responses:
  *       200:
  *         description: List of media items with pagination
@@ -275,6 +324,11 @@ router.get('/recent', getRecentImages);
  *           enum: [image, video, all]
  *         description: Filter by media type
  *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *         description: Only media with this tag, with or without the leading #
+ *       - in: query
  *         name: sortField
  *         schema:
  *           type: string
@@ -344,6 +398,8 @@ router.get('/recent', getRecentImages);
  *                           type: string
  *                         mediaType:
  *                           type: string
+ *                         tag:
+ *                           type: string
  *                         sortField:
  *                           type: string
  *                         sortOrder:
@@ -358,7 +414,7 @@ router.get('/gallery', authenticateUser, getUserGallery);
  *     tags:
  *       - Images
  *     summary: Delete an image
- *     description: Delete an image (only uploader or event creator)
+ *     description: Delete an image (only the uploader or someone with the MODERATE_MEDIA permission)
  *     parameters:
  *       - in: path
  *         name: id
@@ -373,4 +429,351 @@ router.get('/gallery', authenticateUser, getUserGallery);
  */
 router.delete('/:id', authenticateUser, deleteImageById);
 
+/**
+ * @swagger
+ * /api/images/{id}:
+ *   patch:
+ *     tags:
+ *       - Images
+ *     summary: Edit a media description
+ *     description: Only the uploader can edit. Hashtags in the description are kept in sync with the media's tags; tags added by hand are left alone.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - description
+ *             properties:
+ *               description:
+ *                 type: string
+ *                 example: "Our #firstdance"
+ *     responses:
+ *       200:
+ *         description: The updated description and tags
+ *       403:
+ *         description: Not the uploader, or the gallery is locked
+ */
+router.patch('/:id', authenticateUser, updateImage);
+
+/**
+ * @swagger
+ * /api/images/{id}/tags:
+ *   post:
+ *     tags:
+ *       - Tags
+ *     summary: Tag media
+ *     description: Adds tags to media; tags already on it are ignored. Only event participants can tag, up to 30 tags per item.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Letters, numbers and underscores, with or without the leading #
+ *                 example: [speeches, '#toast']
+ *     responses:
+ *       200:
+ *         description: All of the media's tags
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 tags:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Only event participants can tag media
+ */
+router.post('/:id/tags', addTagsToImage);
+
+/**
+ * @swagger
+ * /api/images/{id}/tags/{tag}:
+ *   delete:
+ *     tags:
+ *       - Tags
+ *     summary: Remove a tag from media
+ *     description: The uploader, whoever added the tag, and anyone with the MODERATE_MEDIA permission can remove it
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: tag
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The media's remaining tags
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id/tags/:tag', removeTagFromImage);
+
+/**
+ * @swagger
+ * /api/images/{id}/comments:
+ *   get:
+ *     tags:
+ *       - Comments
+ *     summary: List comments on media
+ *     description: Top-level comments, newest first, each with its reply count. Deleted comments that still have replies are returned as placeholders.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated comments and whether the event currently accepts new ones
+ *       403:
+ *         description: No access to the event's media
+ *       404:
+ *         description: Image not found
+ *   post:
+ *     tags:
+ *       - Comments
+ *     summary: Comment on media
+ *     description: Only event participants can comment, and only while the event allows comments. Replying to a reply adds to the same thread.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 maxLength: 2000
+ *               parentId:
+ *                 type: string
+ *                 description: The comment being replied to
+ *     responses:
+ *       201:
+ *         description: Comment created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Comments are disabled, or the user is not a participant
+ */
+router.get('/:id/comments', getImageComments);
+router.post('/:id/comments', createComment);
+
+/**
+ * @swagger
+ * /api/images/{id}/reactions:
+ *   get:
+ *     tags:
+ *       - Reactions
+ *     summary: List reactions on media
+ *     description: Reaction totals plus who reacted, newest first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: emoji
+ *         description: Only list people who reacted with this emoji
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Reaction summary and paginated reactions
+ *   post:
+ *     tags:
+ *       - Reactions
+ *     summary: Toggle a reaction
+ *     description: Adds the reaction, or removes it if the user already reacted with that emoji. Only event participants can react.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               emoji:
+ *                 type: string
+ *                 enum: ['❤️', '😍', '😂', '😮', '👏', '🔥']
+ *                 default: '❤️'
+ *     responses:
+ *       200:
+ *         description: Whether the user now has this reaction, and the updated summary
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       403:
+ *         description: Only event participants can react
+ */
+router.get('/:id/reactions', getImageReactions);
+router.post('/:id/reactions', toggleReaction);
+
+/**
+ * @swagger
+ * /api/images/comments/{commentId}/replies:
+ *   get:
+ *     tags:
+ *       - Comments
+ *     summary: List replies to a comment
+ *     description: Replies in the order they were posted
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated replies
+ *       404:
+ *         description: Comment not found
+ */
+router.get('/comments/:commentId/replies', getCommentReplies);
+
+/**
+ * @swagger
+ * /api/images/comments/{commentId}:
+ *   patch:
+ *     tags:
+ *       - Comments
+ *     summary: Edit a comment
+ *     description: Only the author can edit, and only while the event allows comments
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 maxLength: 2000
+ *     responses:
+ *       200:
+ *         description: The updated comment
+ *       403:
+ *         description: Not the author, or comments are disabled
+ *   delete:
+ *     tags:
+ *       - Comments
+ *     summary: Delete a comment
+ *     description: The author or anyone with the MODERATE_MEDIA permission can delete a comment
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Comment deleted
+ *       403:
+ *         description: No permission to delete this comment
+ */
+router.patch('/comments/:commentId', updateComment);
+router.delete('/comments/:commentId', deleteComment);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,66 @@
+import express from 'express';
+import { acceptInvitation, getInvitation } from '../controllers/invitations';
+import { authenticateUser } from '../middleware/auth';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/invitations/accept:
+ *   post:
+ *     tags:
+ *       - Invitations
+ *     summary: Accept an invitation
+ *     description: Joins the event as the signed-in user. Email invitations can only be accepted by the invited address.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Joined the event
+ *       202:
+ *         description: The event is full and the user was added to the waitlist
+ *       400:
+ *         description: The invitation is expired, revoked or used up, or the user is already a participant
+ *       403:
+ *         description: The invitation was sent to a different email address
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/accept', authenticateUser, acceptInvitation);
+
+/**
+ * @swagger
+ * /api/invitations:
+ *   get:
+ *     tags:
+ *       - Invitations
+ *     summary: Preview an invitation
+ *     description: Shows the event an invitation is for and whether it can still be accepted
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation details
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/', getInvitation);
+
+export default router;
@@ -0,0 +1,223 @@
+import express from 'express';
+import {
+    authorize,
+    callback,
+    getIdentities,
+    getProviders,
+    linkCallback,
+    linkProvider,
+    unlinkProvider,
+} from '../controllers/oidc';
+import { authenticateUser } from '../middleware/auth';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/auth/oidc/providers:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: List identity providers
+ *     description: Returns the OpenID Connect providers users can sign in with
+ *     responses:
+ *       200:
+ *         description: Configured providers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   name:
+ *                     type: string
+ */
+router.get('/providers', getProviders);
+
+/**
+ * @swagger
+ * /api/auth/oidc/identities:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: List linked identities
+ *     description: Returns the identity providers linked to the authenticated user
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Linked identities
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/identities', authenticateUser, getIdentities);
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/authorize:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: Start signing in with a provider
+ *     description: Returns the provider's authorization URL (authorization code flow with PKCE). After signing in, the provider redirects to the configured redirect URI with a code and state, which the client posts to the callback endpoint.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Authorization URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 authorizationUrl:
+ *                   type: string
+ *                 state:
+ *                   type: string
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get('/:provider/authorize', authorize);
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/callback:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Complete signing in with a provider
+ *     description: Exchanges the authorization code for the user's identity. Signs in the linked user, links an existing account with the same verified email, or creates a new account without a password. Requests started with the link endpoint complete through the link callback instead.
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - state
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Signed in successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       409:
+ *         description: Email or identity already belongs to another account
+ */
+router.post('/:provider/callback', callback);
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/link:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Link a provider to the current account
+ *     description: Starts the authorization flow. The provider's code and state are then passed to the link callback by the same signed-in user.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Authorization URL
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/:provider/link', authenticateUser, linkProvider);
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/link/callback:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Complete linking a provider
+ *     description: Links the provider identity to the authenticated user. Only the user who started the link request can complete it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - state
+ *             properties:
+ *               code:
+ *                 type: string
+ *               state:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The linked identity
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: The identity already belongs to another account
+ */
+router.post('/:provider/link/callback', authenticateUser, linkCallback);
+
+/**
+ * @swagger
+ * /api/auth/oidc/{provider}/link:
+ *   delete:
+ *     tags:
+ *       - Authentication
+ *     summary: Unlink a provider
+ *     description: Removes a linked provider. The last sign-in method cannot be removed from an account without a password.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Provider unlinked successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:provider/link', authenticateUser, unlinkProvider);
+
+export default router;
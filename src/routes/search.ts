@@ -0,0 +1,107 @@
+import express from 'express';
+import { search } from '../controllers/search';
+import { authenticateUser } from '../middleware/auth';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SearchHighlights:
+ *       type: object
+ *       description: Matched fragments as HTML-escaped text with the matching words wrapped in <mark> tags; null where the field didn't match
+ *       additionalProperties:
+ *         type: string
+ *         nullable: true
+ *       example:
+ *         description: "Our <mark>first</mark> <mark>dance</mark> under the lights"
+ *         eventName: null
+ *         eventLocation: null
+ *         comment: null
+ */
+
+/**
+ * @swagger
+ * /api/search:
+ *   get:
+ *     tags:
+ *       - Search
+ *     summary: Search media and events
+ *     description: Full-text search over media descriptions, comments, and event names, locations and descriptions. Only returns what the user could already see in the recent media feed or the event listing.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         description: Words to search for; supports "quoted phrases", or, and -excluded words
+ *         schema:
+ *           type: string
+ *           maxLength: 200
+ *       - in: query
+ *         name: type
+ *         description: Search media (matched by description, comments or their event) or events
+ *         schema:
+ *           type: string
+ *           enum: [media, events]
+ *           default: media
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Results, best match first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 query:
+ *                   type: string
+ *                 type:
+ *                   type: string
+ *                   enum: [media, events]
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     description: A Media or Event, with its rank and highlights
+ *                     properties:
+ *                       rank:
+ *                         type: number
+ *                       highlights:
+ *                         $ref: '#/components/schemas/SearchHighlights'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     currentPage:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *                     totalItems:
+ *                       type: integer
+ *                     itemsPerPage:
+ *                       type: integer
+ *                     hasNextPage:
+ *                       type: boolean
+ *                     hasPreviousPage:
+ *                       type: boolean
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/', authenticateUser, search);
+
+export default router;
@@ -0,0 +1,176 @@
+import express from 'express';
+import {
+    confirmTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+    setupTwoFactor,
+    verifyTwoFactorLogin,
+} from '../controllers/twoFactor';
+import { authenticateUser } from '../middleware/auth';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Start two-factor enrollment
+ *     description: Generates a TOTP secret and returns it with an otpauth URI to show as a QR code. 2FA is only enabled once a first code is confirmed.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: TOTP secret generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: string
+ *                 otpauthUri:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/setup', authenticateUser, setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/confirm:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Confirm two-factor enrollment
+ *     description: Enables 2FA with a first code from the authenticator app and returns one-time recovery codes
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.post('/confirm', authenticateUser, confirmTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/verify:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Complete a two-factor login
+ *     description: Exchanges the challenge token returned by login plus a TOTP code (or a recovery code) for access and refresh tokens
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         description: Too many failed attempts; try again later
+ */
+router.post('/verify', verifyTwoFactorLogin);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Disable two-factor authentication
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/disable', authenticateUser, disableTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes. Requires a current TOTP code.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/recovery-codes', authenticateUser, regenerateRecoveryCodes);
+
+export default router;
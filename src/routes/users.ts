@@ -1,5 +1,7 @@
 import express from 'express';
 import {
+    changeEmail,
+    changePassword,
     getAllUsers,
     getUserById,
     getUserEvents,
@@ -66,6 +68,82 @@ const router = express.Router();
  */
 router.get('/', authenticateUser, getAllUsers);
 
+/**
+ * @swagger
+ * /api/users/me/password:
+ *   put:
+ *     tags:
+ *       - Users
+ *     summary: Change password
+ *     description: Change the authenticated user's password. All other sessions are logged out. Accounts without a password, created through an identity provider or a magic link, set their first one through the forgot password email instead.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *               newPassword:
+ *                 type: string
+ *                 format: password
+ *                 description: New password (min 6 characters)
+ *     responses:
+ *       200:
+ *         description: Password changed successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.put('/me/password', authenticateUser, changePassword);
+
+/**
+ * @swagger
+ * /api/users/me/email:
+ *   put:
+ *     tags:
+ *       - Users
+ *     summary: Change email address
+ *     description: Sends a verification link to the new address. The email only changes once that link is opened.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: Current password
+ *     responses:
+ *       200:
+ *         description: Verification email sent to the new address
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: Email already in use
+ */
+router.put('/me/email', authenticateUser, changeEmail);
+
 /**
  * @swagger
  * /api/users/{id}:
@@ -143,15 +221,31 @@ router.put('/:id', authenticateUser, updateUser);
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/EventSearch'
+ *       - $ref: '#/components/parameters/EventFrom'
+ *       - $ref: '#/components/parameters/EventTo'
+ *       - $ref: '#/components/parameters/EventVisibility'
+ *       - $ref: '#/components/parameters/EventGalleryStyle'
+ *       - $ref: '#/components/parameters/EventCreator'
+ *       - $ref: '#/components/parameters/EventPhase'
+ *       - $ref: '#/components/parameters/EventSort'
+ *       - $ref: '#/components/parameters/EventOrder'
+ *       - $ref: '#/components/parameters/EventCursor'
+ *       - $ref: '#/components/parameters/EventLimit'
  *     responses:
  *       200:
- *         description: List of events
+ *         description: One page of events
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/Event'
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Event'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/EventPagination'
  */
 router.get('/:id/events', authenticateUser, getUserEvents);
 
@@ -193,9 +287,21 @@ router.get('/:id/images', authenticateUser, getUserImages);
  *     description: Get events created by the authenticated user
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventSearch'
+ *       - $ref: '#/components/parameters/EventFrom'
+ *       - $ref: '#/components/parameters/EventTo'
+ *       - $ref: '#/components/parameters/EventVisibility'
+ *       - $ref: '#/components/parameters/EventGalleryStyle'
+ *       - $ref: '#/components/parameters/EventCreator'
+ *       - $ref: '#/components/parameters/EventPhase'
+ *       - $ref: '#/components/parameters/EventSort'
+ *       - $ref: '#/components/parameters/EventOrder'
+ *       - $ref: '#/components/parameters/EventCursor'
+ *       - $ref: '#/components/parameters/EventLimit'
  *     responses:
  *       200:
- *         description: List of created events
+ *         description: One page of created events
  *         content:
  *           application/json:
  *             schema:
@@ -209,6 +315,8 @@ router.get('/:id/images', authenticateUser, getUserImages);
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Event'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/EventPagination'
  */
 router.get('/events/created', authenticateUser, getUserCreatedEvents);
 
@@ -222,9 +330,21 @@ router.get('/events/created', authenticateUser, getUserCreatedEvents);
  *     description: Get events the authenticated user has joined but didn't create
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventSearch'
+ *       - $ref: '#/components/parameters/EventFrom'
+ *       - $ref: '#/components/parameters/EventTo'
+ *       - $ref: '#/components/parameters/EventVisibility'
+ *       - $ref: '#/components/parameters/EventGalleryStyle'
+ *       - $ref: '#/components/parameters/EventCreator'
+ *       - $ref: '#/components/parameters/EventPhase'
+ *       - $ref: '#/components/parameters/EventSort'
+ *       - $ref: '#/components/parameters/EventOrder'
+ *       - $ref: '#/components/parameters/EventCursor'
+ *       - $ref: '#/components/parameters/EventLimit'
  *     responses:
  *       200:
- *         description: List of joined events
+ *         description: One page of joined events
  *         content:
  *           application/json:
  *             schema:
@@ -238,6 +358,8 @@ router.get('/events/created', authenticateUser, getUserCreatedEvents);
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Event'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/EventPagination'
  */
 router.get('/events/joined', authenticateUser, getUserJoinedEvents);
 
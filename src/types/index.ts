@@ -6,10 +6,21 @@ export interface JwtPayload {
   id: string;
   email: string;
   name: string;
+  sid: string; // Session family the token was issued for
+}
+
+// Payload of the scoped token issued to anonymous event guests
+export interface GuestPayload {
+  gid: string;
+  eventId: string;
+  name: string;
+  scope: 'guest';
 }
 
 export interface AuthRequest extends Request {
   user?: JwtPayload;
+  guest?: GuestPayload;
+  apiKey?: { id: string; scopes: string[] }; // Set when authenticated with an API key
   prisma?: PrismaClient;
 }
 
@@ -0,0 +1,103 @@
+import { PrismaClient } from '@prisma/client';
+import { Forbidden, Unauthorized } from '../libs/Error.Lib';
+import { JwtPayload } from '../types';
+import { generateToken, hashToken } from './session';
+
+const KEY_PREFIX = 'mk_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// Avoid a database write on every request made with the same key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const API_KEY_SCOPES = ['events:read', 'events:write', 'media:read', 'media:write'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Which scope an API key needs for each route prefix; anything else is off limits to keys
+const SCOPE_RULES: Array<{ prefix: string; read: ApiKeyScope; write: ApiKeyScope }> = [
+  { prefix: '/api/events', read: 'events:read', write: 'events:write' },
+  { prefix: '/api/images', read: 'media:read', write: 'media:write' },
+];
+
+/**
+ * Check that every requested scope is a known one
+ * @param scopes - Scopes requested for a new key
+ * @returns Whether the list is non-empty and valid
+ */
+export const isValidScopeList = (scopes: unknown): scopes is ApiKeyScope[] => {
+  return Array.isArray(scopes)
+    && scopes.length > 0
+    && scopes.every(scope => (API_KEY_SCOPES as readonly string[]).includes(scope));
+};
+
+/**
+ * Generate a new API key
+ * @returns The raw key, shown to the user once, with its display prefix and hash
+ */
+export const generateApiKey = () => {
+  const key = KEY_PREFIX + generateToken(32);
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashToken(key) };
+};
+
+/**
+ * Find the scope an API key needs to make a request
+ * @param method - HTTP method
+ * @param path - Full request path
+ * @returns The required scope, or null if API keys may not call the endpoint
+ */
+export const requiredScopeFor = (method: string, path: string): ApiKeyScope | null => {
+  const rule = SCOPE_RULES.find(({ prefix }) => path === prefix || path.startsWith(`${prefix}/`));
+  if (!rule) {
+    return null;
+  }
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? rule.read : rule.write;
+};
+
+/**
+ * Resolve the user behind an API key and check it may make the request
+ * @param prisma - The Prisma client
+ * @param key - The raw key from the Authorization header
+ * @param method - HTTP method of the request
+ * @param path - Full request path
+ * @returns The key's user as a token payload, plus the key id and scopes
+ */
+export const authenticateApiKey = async (
+  prisma: PrismaClient,
+  key: string,
+  method: string,
+  path: string
+): Promise<{ user: JwtPayload; apiKey: { id: string; scopes: string[] } }> => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(key) },
+    select: {
+      id: true,
+      scopes: true,
+      lastUsedAt: true,
+      expiresAt: true,
+      revokedAt: true,
+      user: { select: { id: true, email: true, name: true } },
+    },
+  });
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt < new Date())) {
+    throw new Unauthorized('Invalid or revoked API key');
+  }
+
+  const requiredScope = requiredScopeFor(method, path);
+  if (!requiredScope) {
+    throw new Forbidden('API keys cannot access this endpoint');
+  }
+
+  if (!apiKey.scopes.includes(requiredScope)) {
+    throw new Forbidden(`API key is missing the ${requiredScope} scope`);
+  }
+
+  if (!apiKey.lastUsedAt || apiKey.lastUsedAt.getTime() < Date.now() - LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } });
+  }
+
+  return {
+    // Keys have no login session; the sid only keeps session-bound endpoints from matching a real one
+    user: { ...apiKey.user, sid: `apikey:${apiKey.id}` },
+    apiKey: { id: apiKey.id, scopes: apiKey.scopes },
+  };
+};
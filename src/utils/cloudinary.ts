@@ -89,3 +89,16 @@ export const deleteFile = async (
 };
 
 export { cloudinary };
+
+/**
+ * Get a JPEG still of an image or video, e.g. for embedding in generated documents
+ * @param url - The original Cloudinary URL
+ * @param width - Target width in pixels
+ * @param height - Target height in pixels
+ * @returns The transformed URL
+ */
+export const getStillImageUrl = (url: string, width: number, height: number): string => {
+  return url
+    .replace('/upload/', `/upload/w_${width},h_${height},c_fill,f_jpg/`)
+    .replace(/\.[^/.]+$/, '.jpg');
+};
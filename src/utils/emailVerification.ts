@@ -0,0 +1,121 @@
+import { PrismaClient } from '@prisma/client';
+import { BadRequest, Conflict, TooManyRequests } from '../libs/Error.Lib';
+import { buildAppUrl, sendMail } from './mailer';
+import { generateToken, hashToken } from './session';
+
+const VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS as string) || 24;
+const RESEND_COOLDOWN_SECONDS = parseInt(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS as string) || 60;
+const RESEND_MAX_PER_HOUR = parseInt(process.env.EMAIL_VERIFICATION_RESEND_MAX_PER_HOUR as string) || 5;
+
+/**
+ * Whether unverified users are blocked from creating events and uploading media
+ */
+export const isEmailVerificationRequired = (): boolean => {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+};
+
+/**
+ * Issue a verification token for an address and email the link to it.
+ * Any earlier pending tokens for the user stop working.
+ * @param prisma - The Prisma client
+ * @param user - The user the address belongs to
+ * @param email - The address to verify
+ */
+export const sendVerificationEmail = async (
+  prisma: PrismaClient,
+  user: { id: string; name: string },
+  email: string
+): Promise<void> => {
+  // Expire rather than delete older tokens so they still count towards the resend limit
+  await prisma.emailVerificationToken.updateMany({
+    where: { userId: user.id, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { expiresAt: new Date() },
+  });
+
+  const token = generateToken(32);
+  await prisma.emailVerificationToken.create({
+    data: {
+      userId: user.id,
+      email,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+    },
+  });
+
+  const verifyUrl = buildAppUrl('/verify-email', { token });
+  await sendMail({
+    to: email,
+    subject: 'Verify your Moments email address',
+    text: `Hi ${user.name},\n\nPlease confirm this email address by opening the link below:\n\n${verifyUrl}\n\nThis link expires in ${VERIFICATION_TTL_HOURS} hours.`,
+  });
+};
+
+/**
+ * Throttle verification resends per user
+ * @param prisma - The Prisma client
+ * @param userId - The user requesting a resend
+ */
+export const assertCanResendVerification = async (prisma: PrismaClient, userId: string): Promise<void> => {
+  const recentTokens = await prisma.emailVerificationToken.findMany({
+    where: { userId, createdAt: { gt: new Date(Date.now() - 60 * 60 * 1000) } },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const [latest] = recentTokens;
+  if (latest && latest.createdAt.getTime() > Date.now() - RESEND_COOLDOWN_SECONDS * 1000) {
+    throw new TooManyRequests(`Please wait ${RESEND_COOLDOWN_SECONDS} seconds before requesting another email`);
+  }
+
+  if (recentTokens.length >= RESEND_MAX_PER_HOUR) {
+    throw new TooManyRequests('Too many verification emails requested, please try again later');
+  }
+};
+
+/**
+ * Consume a verification token and mark the address as verified. Tokens issued
+ * for a pending email change also switch the user over to the new address.
+ * @param prisma - The Prisma client
+ * @param token - The raw token from the verification link
+ * @returns The verified user id and address
+ */
+export const consumeVerificationToken = async (
+  prisma: PrismaClient,
+  token: string
+): Promise<{ userId: string; email: string }> => {
+  const verification = await prisma.emailVerificationToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { id: true, userId: true, email: true, usedAt: true, expiresAt: true },
+  });
+
+  if (!verification || verification.usedAt || verification.expiresAt < new Date()) {
+    throw new BadRequest('Invalid or expired verification token');
+  }
+
+  const owner = await prisma.user.findUnique({
+    where: { email: verification.email },
+    select: { id: true },
+  });
+
+  if (owner && owner.id !== verification.userId) {
+    throw new Conflict('This email address is already in use');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.emailVerificationToken.updateMany({
+      where: { id: verification.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new BadRequest('Invalid or expired verification token');
+    }
+
+    await tx.user.update({
+      where: { id: verification.userId },
+      data: { email: verification.email, emailVerifiedAt: new Date() },
+    });
+  });
+
+  return { userId: verification.userId, email: verification.email };
+};
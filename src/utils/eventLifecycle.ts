@@ -0,0 +1,160 @@
+import { EventStatus, Prisma, PrismaClient } from '@prisma/client';
+import { RequestHandler } from 'express';
+import { BadRequest, Forbidden } from '../libs/Error.Lib';
+import LoggerLib from '../libs/Logger.Lib';
+
+const SCHEDULER_INTERVAL_SECONDS = parseInt(process.env.EVENT_SCHEDULER_INTERVAL_SECONDS as string) || 60;
+
+// Manual transitions an organizer may make; date-driven ones are also applied by the scheduler
+export const STATUS_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+  [EventStatus.DRAFT]: [EventStatus.SCHEDULED, EventStatus.LIVE],
+  [EventStatus.SCHEDULED]: [EventStatus.DRAFT, EventStatus.LIVE, EventStatus.ENDED],
+  [EventStatus.LIVE]: [EventStatus.ENDED],
+  [EventStatus.ENDED]: [EventStatus.ARCHIVED],
+  [EventStatus.ARCHIVED]: [EventStatus.ENDED],
+};
+
+// Listing filters and the statuses they match
+export const EVENT_PHASES = {
+  draft: EventStatus.DRAFT,
+  upcoming: EventStatus.SCHEDULED,
+  live: EventStatus.LIVE,
+  past: EventStatus.ENDED,
+  archived: EventStatus.ARCHIVED,
+} as const;
+
+export type EventPhase = keyof typeof EVENT_PHASES;
+
+/**
+ * Work out which status an event's dates put it in
+ * @param startDate - When the event starts, if set
+ * @param endDate - When the event ends, if set
+ * @param now - The time to check against
+ * @returns SCHEDULED before the start, ENDED after the end, LIVE otherwise
+ */
+export const statusForDates = (startDate: Date | null, endDate: Date | null, now = new Date()): EventStatus => {
+  if (endDate && endDate <= now) {
+    return EventStatus.ENDED;
+  }
+  if (startDate && startDate > now) {
+    return EventStatus.SCHEDULED;
+  }
+  return EventStatus.LIVE;
+};
+
+/**
+ * Throw if an organizer may not move an event from one status to another
+ * @param from - The event's current status
+ * @param to - The requested status
+ */
+export const assertTransitionAllowed = (from: EventStatus, to: EventStatus): void => {
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    const allowed = STATUS_TRANSITIONS[from].join(', ');
+    throw new BadRequest('Validation', `An event can't go from ${from} to ${to}; allowed: ${allowed}`);
+  }
+};
+
+/**
+ * Throw if nobody new can join an event in this status
+ * @param status - The event's status
+ */
+export const assertJoinableStatus = (status: EventStatus): void => {
+  if (status === EventStatus.DRAFT) {
+    throw new Forbidden('This event has not been published yet');
+  }
+  if (status === EventStatus.ARCHIVED) {
+    throw new Forbidden('This event has been archived');
+  }
+};
+
+/**
+ * Build the listing filter for a phase query parameter
+ * @param phase - The requested phase, if any
+ * @returns A where clause; without a phase, archived events are left out
+ */
+export const phaseFilter = (phase?: string): Prisma.EventWhereInput => {
+  if (!phase) {
+    return { status: { not: EventStatus.ARCHIVED } };
+  }
+
+  if (!(phase in EVENT_PHASES)) {
+    throw new BadRequest('Validation', `Phase must be one of: ${Object.keys(EVENT_PHASES).join(', ')}`);
+  }
+  return { status: EVENT_PHASES[phase as EventPhase] };
+};
+
+/**
+ * Move events along as their start and end dates pass
+ * @param prisma - The Prisma client
+ * @param now - The time to apply
+ * @returns How many events went live and how many ended
+ */
+export const applyScheduledTransitions = async (
+  prisma: PrismaClient,
+  now = new Date()
+): Promise<{ started: number; ended: number }> => {
+  // Ending first means an event whose whole window has passed skips straight to ENDED
+  const ended = await prisma.event.updateMany({
+    where: {
+      status: { in: [EventStatus.SCHEDULED, EventStatus.LIVE] },
+      endDate: { lte: now },
+    },
+    data: { status: EventStatus.ENDED },
+  });
+
+  const started = await prisma.event.updateMany({
+    where: {
+      status: EventStatus.SCHEDULED,
+      OR: [{ startDate: null }, { startDate: { lte: now } }],
+    },
+    data: { status: EventStatus.LIVE },
+  });
+
+  return { started: started.count, ended: ended.count };
+};
+
+/**
+ * Run the scheduled transitions in the background. Every instance may run it, since the updates are idempotent.
+ * @param prisma - The Prisma client
+ * @returns The timer, so it can be stopped on shutdown
+ */
+export const startEventScheduler = (prisma: PrismaClient): NodeJS.Timeout => {
+  const tick = async () => {
+    try {
+      const { started, ended } = await applyScheduledTransitions(prisma);
+      if (started || ended) {
+        LoggerLib.log('Event scheduler', { started, ended });
+      }
+    } catch (error) {
+      LoggerLib.error('Event scheduler failed', error);
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, SCHEDULER_INTERVAL_SECONDS * 1000);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+  return timer;
+};
+
+/**
+ * Apply due transitions as requests come in, at most once per scheduler interval on each instance. Serverless hosts
+ * can't keep a timer running, and the cron job there may only run daily, so this keeps statuses current in between.
+ * @param prisma - The Prisma client
+ * @returns Middleware to mount before the routes
+ */
+export const applyTransitionsOnRequest = (prisma: PrismaClient): RequestHandler => {
+  let lastRunAt = 0;
+
+  return async (_req, _res, next) => {
+    if (Date.now() - lastRunAt >= SCHEDULER_INTERVAL_SECONDS * 1000) {
+      lastRunAt = Date.now();
+      try {
+        await applyScheduledTransitions(prisma);
+      } catch (error) {
+        LoggerLib.error('Event scheduler failed', error);
+      }
+    }
+    next();
+  };
+};
@@ -0,0 +1,208 @@
+import { EventVisibility, GalleryStyle, Prisma } from '@prisma/client';
+import { Request } from 'express';
+import { BadRequest } from '../libs/Error.Lib';
+import { phaseFilter } from './eventLifecycle';
+import { matchingEventIds } from './search';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_LENGTH = 100;
+
+export const EVENT_SORTS = ['createdAt', 'startDate', 'activity', 'mediaCount'] as const;
+
+export type EventSort = typeof EVENT_SORTS[number];
+
+export interface EventListQuery {
+  where: Prisma.EventWhereInput;
+  search?: string;
+  sort: EventSort;
+  order: Prisma.SortOrder;
+  orderBy: Prisma.EventOrderByWithRelationInput[];
+  cursor?: string;
+  limit: number;
+}
+
+export interface EventPagination {
+  nextCursor: string | null;
+  hasNextPage: boolean;
+  itemsPerPage: number;
+}
+
+const parseDate = (value: unknown, name: string): Date | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new BadRequest('Validation', `${name} must be a valid date`);
+  }
+  return date;
+};
+
+const parseEnum = <T extends string>(value: unknown, values: T[], name: string): T | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const normalized = (value as string).toUpperCase() as T;
+  if (!values.includes(normalized)) {
+    throw new BadRequest('Validation', `${name} must be one of: ${values.join(', ')}`);
+  }
+  return normalized;
+};
+
+const sortOrder = (sort: EventSort, order: Prisma.SortOrder): Prisma.EventOrderByWithRelationInput => {
+  switch (sort) {
+    case 'startDate':
+      return { startDate: { sort: order, nulls: 'last' } };
+    case 'activity':
+      return { lastActivityAt: order };
+    case 'mediaCount':
+      return { images: { _count: order } };
+    default:
+      return { createdAt: order };
+  }
+};
+
+// Prisma's cursor compares startDate with = and >, which never match NULL, so pages after the cursor are filtered
+// by hand to keep the undated events that sort last
+const startDateAfter = (cursor: { id: string; startDate: Date | null }, order: Prisma.SortOrder): Prisma.EventWhereInput => {
+  const after = order === 'asc' ? 'gt' : 'lt';
+  if (!cursor.startDate) {
+    return { startDate: null, id: { [after]: cursor.id } };
+  }
+
+  return {
+    OR: [
+      { startDate: { [after]: cursor.startDate } },
+      { startDate: cursor.startDate, id: { [after]: cursor.id } },
+      { startDate: null },
+    ],
+  };
+};
+
+/**
+ * Parse the search, filter, sort and cursor parameters shared by the event listings
+ * @param query - The request's query string
+ * @returns The filters as a where clause, the ordering and the page to fetch
+ */
+export const parseEventListQuery = (query: Request['query']): EventListQuery => {
+  const search = typeof query.q === 'string' ? query.q.trim() : '';
+  if (search.length > MAX_SEARCH_LENGTH) {
+    throw new BadRequest('Validation', `Search must be at most ${MAX_SEARCH_LENGTH} characters`);
+  }
+
+  const from = parseDate(query.from, 'from');
+  const to = parseDate(query.to, 'to');
+  const visibility = parseEnum(query.visibility, Object.values(EventVisibility), 'visibility');
+  const galleryStyle = parseEnum(query.galleryStyle, Object.values(GalleryStyle), 'galleryStyle');
+  const creatorId = typeof query.creatorId === 'string' && query.creatorId ? query.creatorId : undefined;
+
+  const sort = ((query.sort as string) || 'createdAt') as EventSort;
+  if (!EVENT_SORTS.includes(sort)) {
+    throw new BadRequest('Validation', `Sort must be one of: ${EVENT_SORTS.join(', ')}`);
+  }
+
+  const order = (query.order as string) || (sort === 'startDate' ? 'asc' : 'desc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new BadRequest('Validation', 'Order must be asc or desc');
+  }
+
+  const filters: Prisma.EventWhereInput[] = [phaseFilter(query.phase as string | undefined)];
+
+  if (from || to) {
+    filters.push({ startDate: { gte: from, lte: to } });
+  }
+
+  if (visibility) filters.push({ visibility });
+  if (galleryStyle) filters.push({ galleryStyle });
+  if (creatorId) filters.push({ creatorId });
+
+  return {
+    where: { AND: filters },
+    search: search || undefined,
+    sort,
+    order,
+    // The id breaks ties so the cursor always points at a single position
+    orderBy: [sortOrder(sort, order), { id: order }],
+    cursor: typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined,
+    limit: Math.min(Math.max(parseInt(query.limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+  };
+};
+
+/**
+ * Build the findMany arguments for one page of events
+ * @param prisma - The Prisma client
+ * @param listQuery - The parsed listing parameters
+ * @param access - The events the user may see in this listing
+ * @returns Arguments to spread into prisma.event.findMany
+ */
+export const eventPageArgs = async (
+  prisma: Prisma.TransactionClient,
+  listQuery: EventListQuery,
+  access: Prisma.EventWhereInput
+) => {
+  // The search uses the same full-text index as /api/search, which Prisma can't express as a filter
+  const where: Prisma.EventWhereInput = listQuery.search
+    ? { AND: [access, listQuery.where, { id: { in: await matchingEventIds(prisma, listQuery.search) } }] }
+    : { AND: [access, listQuery.where] };
+
+  const args = {
+    where,
+    orderBy: listQuery.orderBy,
+    // One extra row tells whether there is another page
+    take: listQuery.limit + 1,
+  };
+
+  if (!listQuery.cursor) {
+    return args;
+  }
+
+  if (listQuery.sort !== 'startDate') {
+    return { ...args, cursor: { id: listQuery.cursor }, skip: 1 };
+  }
+
+  const cursor = await prisma.event.findUnique({
+    where: { id: listQuery.cursor },
+    select: { id: true, startDate: true },
+  });
+
+  if (!cursor) {
+    throw new BadRequest('Validation', 'Invalid cursor');
+  }
+  return { ...args, where: { AND: [where, startDateAfter(cursor, listQuery.order)] } };
+};
+
+/**
+ * Split a fetched page into its events and the pagination metadata
+ * @param rows - The rows fetched with eventPageArgs
+ * @param listQuery - The parsed listing parameters
+ * @returns The page's events and the cursor for the next page
+ */
+export const toEventPage = <T extends { id: string }>(
+  rows: T[],
+  listQuery: EventListQuery
+): { data: T[]; pagination: EventPagination } => {
+  const hasNextPage = rows.length > listQuery.limit;
+  const data = rows.slice(0, listQuery.limit);
+
+  return {
+    data,
+    pagination: {
+      nextCursor: hasNextPage ? data[data.length - 1].id : null,
+      hasNextPage,
+      itemsPerPage: listQuery.limit,
+    },
+  };
+};
+
+/**
+ * Mark that something happened in an event, for sorting listings by activity
+ * @param prisma - The Prisma client or a transaction client
+ * @param eventId - The event
+ */
+export const recordEventActivity = async (prisma: Prisma.TransactionClient, eventId: string): Promise<void> => {
+  // Raw SQL so updatedAt keeps meaning the event itself was edited; Prisma sets it on every update
+  await prisma.$executeRaw`UPDATE "Event" SET "lastActivityAt" = ${new Date()} WHERE "id" = ${eventId}`;
+};
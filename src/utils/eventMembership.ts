@@ -0,0 +1,347 @@
+import { EventRole, EventVisibility, LeaveReason, ParticipantStatus, Prisma, PrismaClient } from '@prisma/client';
+import { BadRequest, Forbidden, NotFound } from '../libs/Error.Lib';
+import LoggerLib from '../libs/Logger.Lib';
+import { assertJoinableStatus } from './eventLifecycle';
+import { recordEventActivity } from './eventListing';
+import { consumeJoinCodeUse, joinCodeUnusableReason, normalizeJoinCode } from './joinCodes';
+import { buildAppUrl, sendMail } from './mailer';
+
+export type JoinOutcome = 'joined' | 'rejoined' | 'pending' | 'waitlisted';
+
+export interface JoinOptions {
+  joinCode?: string;
+  invited?: boolean; // Joining through an accepted invitation, which stands in for the join code
+}
+
+// Lock the event row so capacity checks and the joins that follow them are serialised
+const lockEvent = async (prisma: Prisma.TransactionClient, eventId: string) => {
+  await prisma.$queryRaw`SELECT "id" FROM "Event" WHERE "id" = ${eventId} FOR UPDATE`;
+};
+
+const countJoined = (prisma: Prisma.TransactionClient, eventId: string) => {
+  return prisma.eventParticipant.count({ where: { eventId, status: ParticipantStatus.JOINED } });
+};
+
+/**
+ * Add a user to an event, enforcing the event's joining rules
+ * @param prisma - A transaction client; capacity is only enforced atomically inside a transaction
+ * @param eventId - The event to join
+ * @param userId - The joining user
+ * @param options - Join code supplied by the user, or whether they were invited
+ * @returns Whether the user joined, rejoined after leaving, is waiting for approval, or was waitlisted because the event is full
+ */
+export const joinEventAsUser = async (
+  prisma: Prisma.TransactionClient,
+  eventId: string,
+  userId: string,
+  { joinCode, invited = false }: JoinOptions = {}
+): Promise<JoinOutcome> => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      id: true,
+      creatorId: true,
+      visibility: true,
+      allowJoining: true,
+      requireApproval: true,
+      joinCode: true,
+      joinCodeExpiresAt: true,
+      joinCodeMaxUses: true,
+      joinCodeUseCount: true,
+      maxAttendees: true,
+      enableWaitlist: true,
+      status: true,
+    },
+  });
+
+  if (!event) {
+    throw new NotFound('Event not found');
+  }
+
+  if (event.creatorId !== userId) {
+    assertJoinableStatus(event.status);
+  }
+
+  const ban = await prisma.eventBan.findUnique({
+    where: { eventId_userId: { eventId, userId } },
+    select: { id: true },
+  });
+
+  if (ban) {
+    throw new Forbidden('You have been banned from this event');
+  }
+
+  // Check existing participation
+  const existingParticipation = await prisma.eventParticipant.findFirst({
+    where: {
+      eventId,
+      userId,
+    },
+    select: {
+      id: true,
+      status: true,
+      leftReason: true,
+    },
+  });
+
+  const isCreator = event.creatorId === userId;
+
+  // Takes the last free spot, or a place on the waitlist when the event is full
+  const admit = async (joinedOutcome: 'joined' | 'rejoined'): Promise<JoinOutcome> => {
+    const role = isCreator ? EventRole.ADMIN : EventRole.ATTENDEE;
+
+    if (event.maxAttendees && !isCreator) {
+      await lockEvent(prisma, eventId);
+      if ((await countJoined(prisma, eventId)) >= event.maxAttendees) {
+        if (!event.enableWaitlist) {
+          throw new BadRequest('This event has reached maximum capacity');
+        }
+
+        await prisma.eventParticipant.upsert({
+          where: { eventId_userId: { eventId, userId } },
+          create: { eventId, userId, status: ParticipantStatus.WAITLISTED, waitlistedAt: new Date() },
+          update: { status: ParticipantStatus.WAITLISTED, waitlistedAt: new Date(), leftAt: null, leftReason: null },
+        });
+        return 'waitlisted';
+      }
+    }
+
+    // Create new participation, reusing a stale row if there is one
+    await prisma.eventParticipant.upsert({
+      where: { eventId_userId: { eventId, userId } },
+      create: { eventId, userId, status: ParticipantStatus.JOINED, role },
+      update: { status: ParticipantStatus.JOINED, role, joinedAt: new Date(), leftAt: null, leftReason: null, waitlistedAt: null },
+    });
+    await recordEventActivity(prisma, eventId);
+    return joinedOutcome;
+  };
+
+  if (existingParticipation) {
+    if (existingParticipation.status === ParticipantStatus.JOINED) {
+      throw new BadRequest('You are already a participant of this event');
+    }
+    if (existingParticipation.status === ParticipantStatus.WAITLISTED) {
+      throw new BadRequest('You are already on the waitlist for this event');
+    }
+    // Someone who left the event by themselves may come back; anyone removed or who only left the waitlist goes through the same checks as a first join
+    if (existingParticipation.status === ParticipantStatus.LEFT && existingParticipation.leftReason === LeaveReason.LEFT) {
+      return admit('rejoined');
+    }
+  }
+
+  // Invitations count as the organizer's approval
+  const needsApproval = event.requireApproval && !isCreator && !invited;
+
+  if (needsApproval && existingParticipation?.status === ParticipantStatus.PENDING) {
+    throw new BadRequest('You already have a pending request to join this event');
+  }
+
+  if (needsApproval && existingParticipation?.status === ParticipantStatus.DECLINED) {
+    throw new Forbidden('Your request to join this event was declined');
+  }
+
+  if (!invited && !isCreator) {
+    if (event.visibility === EventVisibility.INVITE_ONLY) {
+      throw new Forbidden('This event is invite-only');
+    }
+
+    // Check if event allows joining
+    if (!event.allowJoining) {
+      throw new Forbidden('This event is not accepting new participants');
+    }
+
+    // Check join code if required
+    if (event.joinCode) {
+      if (!joinCode || normalizeJoinCode(joinCode) !== event.joinCode) {
+        throw new Forbidden('Invalid join code');
+      }
+
+      const reason = joinCodeUnusableReason(event);
+      if (reason) {
+        throw new Forbidden(reason);
+      }
+    }
+  }
+
+  const usesJoinCode = !invited && !isCreator && !!event.joinCode;
+  const countJoinCodeUse = async () => {
+    // Re-checked atomically since the cap may have been reached since the event was read
+    if (usesJoinCode && !(await consumeJoinCodeUse(prisma, eventId))) {
+      throw new Forbidden('This join code has reached its usage limit');
+    }
+  };
+
+  if (needsApproval) {
+    await countJoinCodeUse();
+    await prisma.eventParticipant.upsert({
+      where: { eventId_userId: { eventId, userId } },
+      create: { eventId, userId, status: ParticipantStatus.PENDING },
+      update: { status: ParticipantStatus.PENDING, joinedAt: new Date(), leftAt: null, leftReason: null },
+    });
+    return 'pending';
+  }
+
+  const outcome = await admit('joined');
+  await countJoinCodeUse();
+  return outcome;
+};
+
+export type JoinRequestDecision = 'approve' | 'decline';
+
+export interface JoinRequestReview {
+  updated: string[];
+  waitlisted: string[]; // Approved users who went onto the waitlist because the event is full
+  skipped: string[];
+}
+
+/**
+ * Approve or decline pending join requests. Once the event is full, approvals go to the waitlist or are skipped.
+ * @param prisma - The Prisma client
+ * @param eventId - The event the requests are for
+ * @param userIds - Users whose requests to review
+ * @param decision - Whether to approve or decline
+ * @returns The users whose requests were updated, which of those were waitlisted, and those that were skipped
+ */
+export const reviewJoinRequests = async (
+  prisma: PrismaClient,
+  eventId: string,
+  userIds: string[],
+  decision: JoinRequestDecision
+): Promise<JoinRequestReview> => {
+  return prisma.$transaction(async tx => {
+    if (decision === 'approve') {
+      await lockEvent(tx, eventId);
+    }
+
+    const pending = await tx.eventParticipant.findMany({
+      where: { eventId, userId: { in: userIds }, status: ParticipantStatus.PENDING },
+      select: { userId: true },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    let updated = pending.map(p => p.userId);
+    let waitlisted: string[] = [];
+
+    if (decision === 'approve') {
+      const event = await tx.event.findUniqueOrThrow({
+        where: { id: eventId },
+        select: { maxAttendees: true, enableWaitlist: true },
+      });
+
+      // Oldest requests win when there isn't room for everyone
+      if (event.maxAttendees) {
+        const free = Math.max(0, event.maxAttendees - (await countJoined(tx, eventId)));
+        waitlisted = event.enableWaitlist ? updated.slice(free) : [];
+        updated = event.enableWaitlist ? updated : updated.slice(0, free);
+      }
+
+      await tx.eventParticipant.updateMany({
+        where: { eventId, userId: { in: waitlisted }, status: ParticipantStatus.PENDING },
+        data: { status: ParticipantStatus.WAITLISTED, waitlistedAt: new Date() },
+      });
+    }
+
+    await tx.eventParticipant.updateMany({
+      where: { eventId, userId: { in: updated.filter(id => !waitlisted.includes(id)) }, status: ParticipantStatus.PENDING },
+      data: decision === 'approve'
+        ? { status: ParticipantStatus.JOINED, joinedAt: new Date() }
+        : { status: ParticipantStatus.DECLINED },
+    });
+
+    return { updated, waitlisted, skipped: userIds.filter(id => !updated.includes(id)) };
+  });
+};
+
+/**
+ * Move the longest-waiting users off the waitlist into any free spots
+ * @param prisma - A transaction client, so the event stays locked until the promotions are saved
+ * @param eventId - The event that may have free spots
+ * @returns The users who were promoted
+ */
+export const promoteFromWaitlist = async (
+  prisma: Prisma.TransactionClient,
+  eventId: string
+): Promise<string[]> => {
+  await lockEvent(prisma, eventId);
+
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { maxAttendees: true },
+  });
+
+  if (!event) {
+    return [];
+  }
+
+  // Without a limit any more, everyone waiting can join
+  const free = event.maxAttendees ? event.maxAttendees - (await countJoined(prisma, eventId)) : undefined;
+  if (free !== undefined && free <= 0) {
+    return [];
+  }
+
+  const next = await prisma.eventParticipant.findMany({
+    where: { eventId, status: ParticipantStatus.WAITLISTED },
+    select: { userId: true },
+    orderBy: { waitlistedAt: 'asc' },
+    take: free,
+  });
+
+  const promoted = next.map(p => p.userId);
+  await prisma.eventParticipant.updateMany({
+    where: { eventId, userId: { in: promoted }, status: ParticipantStatus.WAITLISTED },
+    data: { status: ParticipantStatus.JOINED, joinedAt: new Date(), waitlistedAt: null },
+  });
+
+  return promoted;
+};
+
+/**
+ * Find a user's place in an event's waitlist
+ * @param prisma - The Prisma client
+ * @param eventId - The event
+ * @param waitlistedAt - When the user joined the waitlist
+ * @returns The 1-based position in the waitlist
+ */
+export const getWaitlistPosition = (
+  prisma: Prisma.TransactionClient,
+  eventId: string,
+  waitlistedAt: Date
+): Promise<number> => {
+  return prisma.eventParticipant.count({
+    where: { eventId, status: ParticipantStatus.WAITLISTED, waitlistedAt: { lte: waitlistedAt } },
+  });
+};
+
+/**
+ * Email users who were promoted from the waitlist. Failures are logged, not thrown, since the promotion already happened.
+ * @param prisma - The Prisma client
+ * @param eventId - The event they were promoted in
+ * @param userIds - The promoted users
+ */
+export const notifyWaitlistPromotions = async (
+  prisma: Prisma.TransactionClient,
+  eventId: string,
+  userIds: string[]
+): Promise<void> => {
+  if (userIds.length === 0) {
+    return;
+  }
+
+  try {
+    const [event, users] = await Promise.all([
+      prisma.event.findUnique({ where: { id: eventId }, select: { name: true } }),
+      prisma.user.findMany({ where: { id: { in: userIds } }, select: { email: true, name: true } }),
+    ]);
+
+    const eventUrl = buildAppUrl(`/events/${eventId}`);
+    for (const user of users) {
+      await sendMail({
+        to: user.email,
+        subject: `A spot opened up in ${event?.name}`,
+        text: `Hi ${user.name},\n\nA spot opened up and you've been moved off the waitlist for ${event?.name}. You can start sharing your photos now:\n\n${eventUrl}`,
+      });
+    }
+  } catch (error) {
+    LoggerLib.error('Failed to send waitlist promotion emails', error);
+  }
+};
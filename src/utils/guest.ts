@@ -0,0 +1,35 @@
+import { EventGuest } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import { Unauthorized } from '../libs/Error.Lib';
+import { GuestPayload } from '../types';
+
+const GUEST_TOKEN_TTL_DAYS = parseInt(process.env.GUEST_TOKEN_TTL_DAYS as string) || 30;
+
+/**
+ * Sign the token a guest uses to upload to and view their event
+ * @param guest - The guest record
+ * @returns The signed guest token and its lifetime in seconds
+ */
+export const signGuestToken = (guest: Pick<EventGuest, 'id' | 'eventId' | 'displayName'>) => {
+  const expiresIn = GUEST_TOKEN_TTL_DAYS * 24 * 60 * 60;
+  const payload: GuestPayload = { gid: guest.id, eventId: guest.eventId, name: guest.displayName, scope: 'guest' };
+
+  return { guestToken: jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn }), expiresIn };
+};
+
+/**
+ * Verify a guest token; user access tokens and other scoped tokens are rejected
+ * @param token - The guest token
+ * @returns The decoded payload
+ */
+export const verifyGuestToken = (token: string): GuestPayload => {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!) as GuestPayload;
+    if (payload.scope !== 'guest' || !payload.gid) {
+      throw new Error('Wrong token scope');
+    }
+    return payload;
+  } catch (error) {
+    throw new Unauthorized('Auth', 'Invalid or expired guest token');
+  }
+};
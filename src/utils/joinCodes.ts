@@ -0,0 +1,104 @@
+import { Prisma } from '@prisma/client';
+import crypto from 'crypto';
+import { ServerError } from '../libs/Error.Lib';
+import { EventPermission, getEventsWithPermission } from './permissions';
+
+// No 0/O, 1/I/L so codes survive being read aloud or copied from a printed card
+const ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Normalize a join code typed by a user
+ * @param code - The raw input, e.g. "abcd-efgh"
+ * @returns The code as stored, e.g. "ABCDEFGH"
+ */
+export const normalizeJoinCode = (code: string): string => {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+};
+
+/**
+ * Generate a random join code
+ * @returns An 8 character code from an unambiguous alphabet
+ */
+export const generateJoinCode = (): string => {
+  return Array.from({ length: CODE_LENGTH }, () => ALPHABET[crypto.randomInt(ALPHABET.length)]).join('');
+};
+
+/**
+ * Generate a join code no other event uses
+ * @param prisma - The Prisma client
+ * @returns The new code
+ */
+export const createUniqueJoinCode = async (prisma: Prisma.TransactionClient): Promise<string> => {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const joinCode = generateJoinCode();
+    const existing = await prisma.event.findUnique({ where: { joinCode }, select: { id: true } });
+    if (!existing) {
+      return joinCode;
+    }
+  }
+  throw new ServerError('Could not generate a unique join code');
+};
+
+/**
+ * Why an event's join code can't be used right now, if it can't
+ * @param event - The event's join code settings
+ * @returns The reason, or null if the code is usable
+ */
+export const joinCodeUnusableReason = (
+  event: { joinCodeExpiresAt: Date | null; joinCodeMaxUses: number | null; joinCodeUseCount: number }
+): string | null => {
+  if (event.joinCodeExpiresAt && event.joinCodeExpiresAt < new Date()) {
+    return 'This join code has expired';
+  }
+  if (event.joinCodeMaxUses !== null && event.joinCodeUseCount >= event.joinCodeMaxUses) {
+    return 'This join code has reached its usage limit';
+  }
+  return null;
+};
+
+/**
+ * Count a use of an event's join code, atomically respecting its usage cap
+ * @param prisma - The Prisma client
+ * @param eventId - The event whose code was used
+ * @returns Whether the use was counted; false once the cap is reached
+ */
+export const consumeJoinCodeUse = async (prisma: Prisma.TransactionClient, eventId: string): Promise<boolean> => {
+  const updated = await prisma.$executeRaw`
+    UPDATE "Event"
+    SET "joinCodeUseCount" = "joinCodeUseCount" + 1
+    WHERE "id" = ${eventId}
+      AND ("joinCodeMaxUses" IS NULL OR "joinCodeUseCount" < "joinCodeMaxUses")
+  `;
+  return updated > 0;
+};
+
+type JoinCodeField = 'joinCode' | 'joinCodeExpiresAt' | 'joinCodeMaxUses' | 'joinCodeUseCount';
+
+/**
+ * Remove the join code settings from events the user doesn't manage participants in, since the code alone lets
+ * anyone join or upload as a guest. Organizers get it from the rotate and QR code endpoints as well.
+ * @param prisma - The Prisma client
+ * @param events - The events to return
+ * @param userId - The requesting user, if signed in
+ * @returns The events, without the join code where the user may not see it
+ */
+export const hideJoinCodes = async <T extends { id: string }>(
+  prisma: Prisma.TransactionClient,
+  events: T[],
+  userId?: string
+): Promise<Array<Omit<T, JoinCodeField>>> => {
+  const managed = userId && events.length > 0
+    ? await getEventsWithPermission(prisma, events.map(event => event.id), userId, EventPermission.MANAGE_PARTICIPANTS)
+    : new Set<string>();
+
+  return events.map(event => {
+    if (managed.has(event.id)) {
+      return event as Omit<T, JoinCodeField>;
+    }
+
+    const { joinCode, joinCodeExpiresAt, joinCodeMaxUses, joinCodeUseCount, ...rest } = event as T & Record<JoinCodeField, unknown>;
+    return rest as Omit<T, JoinCodeField>;
+  });
+};
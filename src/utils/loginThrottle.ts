@@ -0,0 +1,170 @@
+import { TooManyRequests } from '../libs/Error.Lib';
+
+const FAILURE_WINDOW_SECONDS = parseInt(process.env.LOGIN_FAILURE_WINDOW_SECONDS as string) || 60 * 60;
+const MAX_ACCOUNT_FAILURES = parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES as string) || 5;
+const MAX_IP_FAILURES = parseInt(process.env.LOGIN_MAX_IP_FAILURES as string) || 20;
+const LOCKOUT_BASE_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_BASE_SECONDS as string) || 30;
+const LOCKOUT_MAX_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_MAX_SECONDS as string) || 15 * 60;
+
+/**
+ * Counter storage for failed attempts. Mirrors the handful of Redis commands it
+ * needs so a shared store can back it when running on several instances.
+ */
+export interface AttemptStore {
+  increment(key: string, ttlMs: number): Promise<number>;
+  setWithTtl(key: string, value: number, ttlMs: number): Promise<void>;
+  ttl(key: string): Promise<number>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Process-local store, fine for a single instance and for tests. Holds at most maxEntries counters so a flood of
+ * attempts from many addresses can't grow it without bound; once full, the oldest counter is dropped.
+ */
+export class MemoryAttemptStore implements AttemptStore {
+  private _entries = new Map<string, { value: number; expiresAt: number }>();
+
+  constructor(private _maxEntries = 10000) {}
+
+  private _set(key: string, value: number, ttlMs: number) {
+    // Re-inserting keeps the map ordered by when each counter was last set, oldest first
+    this._entries.delete(key);
+
+    while (this._entries.size >= this._maxEntries) {
+      this._entries.delete(this._entries.keys().next().value as string);
+    }
+
+    this._entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  private _get(key: string) {
+    const entry = this._entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this._entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const entry = this._get(key);
+    if (entry) {
+      entry.value += 1;
+      return entry.value;
+    }
+    this._set(key, 1, ttlMs);
+    return 1;
+  }
+
+  async setWithTtl(key: string, value: number, ttlMs: number): Promise<void> {
+    this._set(key, value, ttlMs);
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this._get(key);
+    return entry ? entry.expiresAt - Date.now() : 0;
+  }
+
+  async delete(key: string): Promise<void> {
+    this._entries.delete(key);
+  }
+}
+
+/**
+ * Minimal subset of a Redis client (ioredis / node-redis v4 legacy mode)
+ */
+export interface RedisLikeClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, ms: number): Promise<unknown>;
+  set(key: string, value: string, mode: 'PX', ms: number): Promise<unknown>;
+  pttl(key: string): Promise<number>;
+  del(key: string): Promise<unknown>;
+}
+
+/**
+ * Store backed by Redis so counters are shared across serverless instances
+ */
+export class RedisAttemptStore implements AttemptStore {
+  constructor(private _client: RedisLikeClient, private _prefix = 'moments:') {}
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const value = await this._client.incr(this._prefix + key);
+    // Only the first hit in a window sets the expiry
+    if (value === 1) {
+      await this._client.pexpire(this._prefix + key, ttlMs);
+    }
+    return value;
+  }
+
+  async setWithTtl(key: string, value: number, ttlMs: number): Promise<void> {
+    await this._client.set(this._prefix + key, String(value), 'PX', ttlMs);
+  }
+
+  async ttl(key: string): Promise<number> {
+    const ttl = await this._client.pttl(this._prefix + key);
+    return ttl > 0 ? ttl : 0;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this._client.del(this._prefix + key);
+  }
+}
+
+let store: AttemptStore = new MemoryAttemptStore();
+
+/**
+ * Replace the store used for failed attempt counters
+ * @param attemptStore - The store to use from now on
+ */
+export const setAttemptStore = (attemptStore: AttemptStore): void => {
+  store = attemptStore;
+};
+
+interface ThrottleSubject {
+  account?: string;
+  ip?: string;
+  // Counters are kept per scope, so guessing join codes and guessing passwords don't lock each other out
+  scope?: 'login' | 'joinCode';
+}
+
+const keysFor = ({ account, ip }: ThrottleSubject) => [
+  ...(account ? [{ name: `acct:${account.toLowerCase()}`, max: MAX_ACCOUNT_FAILURES }] : []),
+  ...(ip ? [{ name: `ip:${ip}`, max: MAX_IP_FAILURES }] : []),
+];
+
+/**
+ * Reject the attempt while the account or IP is locked out
+ * @param subject - Account identifier (e.g. email), client IP and the scope the attempt counts towards
+ */
+export const assertLoginAllowed = async (subject: ThrottleSubject): Promise<void> => {
+  const remaining = await Promise.all(keysFor(subject).map(({ name }) => store.ttl(`${subject.scope || 'login'}:lock:${name}`)));
+  const retryAfterMs = Math.max(0, ...remaining);
+
+  if (retryAfterMs > 0) {
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    throw new TooManyRequests(`Too many failed attempts. Try again in ${retryAfter} seconds`);
+  }
+};
+
+/**
+ * Count a failed attempt; once over the threshold, lock out for an exponentially growing period
+ * @param subject - Account identifier (e.g. email), client IP and the scope the attempt counts towards
+ */
+export const recordLoginFailure = async (subject: ThrottleSubject): Promise<void> => {
+  const scope = subject.scope || 'login';
+  await Promise.all(keysFor(subject).map(async ({ name, max }) => {
+    const failures = await store.increment(`${scope}:fail:${name}`, FAILURE_WINDOW_SECONDS * 1000);
+    if (failures >= max) {
+      const lockSeconds = Math.min(LOCKOUT_BASE_SECONDS * 2 ** (failures - max), LOCKOUT_MAX_SECONDS);
+      await store.setWithTtl(`${scope}:lock:${name}`, failures, lockSeconds * 1000);
+    }
+  }));
+};
+
+/**
+ * Clear the account's failure count after a successful login
+ * @param account - Account identifier (e.g. email)
+ */
+export const resetLoginFailures = async (account: string): Promise<void> => {
+  await store.delete(`login:fail:acct:${account.toLowerCase()}`);
+};
@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import nodemailer, { Transporter } from 'nodemailer';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import LoggerLib from '../libs/Logger.Lib';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Transport that writes outgoing mail to the application log, for development only
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    LoggerLib.log('Outgoing mail', { to: message.to, subject: message.subject, text: message.text });
+  }
+}
+
+/**
+ * Transport that stores each outgoing mail as a JSON file, handy for local
+ * development and for asserting on mail contents in tests
+ */
+export class FileTransport implements MailTransport {
+  constructor(private _dir: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this._dir, { recursive: true });
+    const fileName = `${Date.now()}-${uuidv4()}.json`;
+    await fs.writeFile(
+      path.join(this._dir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Transport that delivers mail through an SMTP server
+ */
+export class SmtpTransport implements MailTransport {
+  private _transporter: Transporter;
+
+  constructor(url: string) {
+    this._transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this._transporter.sendMail(message);
+  }
+}
+
+const createDefaultTransport = (): MailTransport => {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console');
+
+  if (kind === 'smtp') {
+    if (!process.env.SMTP_URL) {
+      throw new Error('SMTP_URL must be set to send mail over SMTP');
+    }
+    return new SmtpTransport(process.env.SMTP_URL);
+  }
+
+  // Mail carries single-use sign-in and reset links, which must never end up in production logs or files
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`MAIL_TRANSPORT=${kind} is only for development and tests; use smtp in production`);
+  }
+
+  if (kind === 'file') {
+    return new FileTransport(process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+  }
+  return new ConsoleTransport();
+};
+
+let transport: MailTransport = createDefaultTransport();
+
+/**
+ * Replace the transport used for outgoing mail (e.g. an SMTP or API backed one)
+ * @param mailTransport - The transport to use from now on
+ */
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+/**
+ * Send an email through the configured transport
+ * @param message - Recipient, subject and body of the mail
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transport.send({ ...message, from: process.env.MAIL_FROM || 'Moments <no-reply@moments.app>' });
+};
+
+/**
+ * Build an absolute link into the client app
+ * @param pathname - Path on the client app, e.g. '/reset-password'
+ * @param params - Query string parameters
+ * @returns The full URL
+ */
+export const buildAppUrl = (pathname: string, params: Record<string, string> = {}): string => {
+  const url = new URL(pathname, process.env.APP_URL || 'http://localhost:8081');
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
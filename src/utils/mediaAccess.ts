@@ -0,0 +1,48 @@
+import { EventVisibility } from '@prisma/client';
+import { Forbidden, NotFound, Unauthorized } from '../libs/Error.Lib';
+import { AuthRequest } from '../types';
+import { getEventAccess } from './permissions';
+
+/**
+ * Load visible event media and check the user or guest may see it
+ * @param req - The authenticated request
+ * @param imageId - The media item
+ * @returns The media, its event, the user's access and whether they are a member who may interact with it
+ */
+export const getImageAccess = async (req: AuthRequest, imageId: string) => {
+  const userId = req.user?.id;
+  const guest = req.guest;
+  if (!userId && !guest) {
+    throw new Unauthorized('Auth', 'Not authenticated');
+  }
+
+  const image = await req.prisma?.image.findFirst({
+    where: { id: imageId, hiddenAt: null },
+    select: {
+      id: true,
+      guestId: true,
+      event: { select: { id: true, visibility: true, isPublicGallery: true, allowComments: true, galleryLockedAt: true } },
+    },
+  });
+
+  if (!image?.event) {
+    throw new NotFound('Image', 'Image not found');
+  }
+
+  // Guest tokens only reach their own event, where the guest takes part like a member without a role
+  if (guest) {
+    if (image.event.id !== guest.eventId) {
+      throw new NotFound('Image', 'Image not found');
+    }
+    return { image, event: image.event, access: null, isMember: true };
+  }
+
+  const access = await getEventAccess(req.prisma!, image.event.id, userId!);
+  const isMember = !!access?.role;
+
+  if (!isMember && image.event.visibility !== EventVisibility.PUBLIC && !image.event.isPublicGallery) {
+    throw new Forbidden('Access', 'You do not have permission to view this media');
+  }
+
+  return { image, event: image.event, access, isMember };
+};
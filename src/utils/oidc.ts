@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OidcProviderConfig } from '../config/oidc';
+import { BadRequest, ServerError, Unauthorized } from '../libs/Error.Lib';
+
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface JsonWebKeySet {
+  keys: Array<crypto.JsonWebKey & { kid?: string; use?: string }>;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+  nonce?: string;
+}
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, { jwks: JsonWebKeySet; fetchedAt: number }>();
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new ServerError('Identity provider request failed', `${url} responded with ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * Fetch (and cache) the provider's OpenID configuration
+ * @param provider - The configured provider
+ * @returns The discovery document
+ */
+export const discover = async (provider: OidcProviderConfig): Promise<DiscoveryDocument> => {
+  const cached = discoveryCache.get(provider.issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+    return cached.document;
+  }
+
+  const document = await fetchJson<DiscoveryDocument>(`${provider.issuer}/.well-known/openid-configuration`);
+  discoveryCache.set(provider.issuer, { document, fetchedAt: Date.now() });
+  return document;
+};
+
+/**
+ * Create a PKCE code verifier and its S256 challenge
+ * @returns The verifier to keep and the challenge to send
+ */
+export const createPkcePair = (): { codeVerifier: string; codeChallenge: string } => {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+};
+
+/**
+ * Build the URL the user is sent to in order to sign in with the provider
+ * @param provider - The configured provider
+ * @param params - State, nonce and PKCE challenge for this request
+ * @returns The authorization URL
+ */
+export const buildAuthorizationUrl = async (
+  provider: OidcProviderConfig,
+  params: { state: string; nonce: string; codeChallenge: string }
+): Promise<string> => {
+  const { authorization_endpoint } = await discover(provider);
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', provider.redirectUri);
+  url.searchParams.set('scope', provider.scopes.join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+};
+
+const getSigningKey = async (provider: OidcProviderConfig, kid?: string, forceRefresh = false) => {
+  const { jwks_uri } = await discover(provider);
+  const cached = jwksCache.get(jwks_uri);
+  let jwks = cached?.jwks;
+
+  if (!jwks || forceRefresh || Date.now() - cached!.fetchedAt > DISCOVERY_CACHE_TTL_MS) {
+    jwks = await fetchJson<JsonWebKeySet>(jwks_uri);
+    jwksCache.set(jwks_uri, { jwks, fetchedAt: Date.now() });
+  }
+
+  const jwk = jwks.keys.find(key => (kid ? key.kid === kid : key.use !== 'enc'));
+  if (!jwk && !forceRefresh) {
+    // The provider may have rotated its keys since we cached them
+    return getSigningKey(provider, kid, true);
+  }
+  if (!jwk) {
+    throw new Unauthorized('Unable to verify identity token signature');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+};
+
+/**
+ * Verify an ID token's signature, issuer, audience and nonce
+ * @param provider - The configured provider
+ * @param idToken - The raw ID token
+ * @param nonce - The nonce sent with the authorization request
+ * @returns The verified claims
+ */
+export const verifyIdToken = async (
+  provider: OidcProviderConfig,
+  idToken: string,
+  nonce: string
+): Promise<OidcClaims> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) {
+    throw new Unauthorized('Invalid identity token');
+  }
+
+  const { issuer } = await discover(provider);
+  const key = await getSigningKey(provider, decoded.header.kid);
+
+  let claims: OidcClaims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'],
+      audience: provider.clientId,
+      issuer,
+    }) as OidcClaims;
+  } catch (error) {
+    throw new Unauthorized('Invalid identity token');
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new Unauthorized('Identity token nonce mismatch');
+  }
+
+  return claims;
+};
+
+/**
+ * Exchange an authorization code for tokens and return the verified ID token claims
+ * @param provider - The configured provider
+ * @param code - The authorization code from the redirect
+ * @param codeVerifier - The PKCE verifier for this request
+ * @param nonce - The nonce sent with the authorization request
+ * @returns The verified claims
+ */
+export const exchangeAuthorizationCode = async (
+  provider: OidcProviderConfig,
+  code: string,
+  codeVerifier: string,
+  nonce: string
+): Promise<OidcClaims> => {
+  const { token_endpoint } = await discover(provider);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: provider.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: codeVerifier,
+  });
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const response = await fetch(token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: body.toString(),
+  });
+
+  if (!response.ok) {
+    throw new BadRequest('Authorization code could not be exchanged');
+  }
+
+  const { id_token } = (await response.json()) as { id_token?: string };
+  if (!id_token) {
+    throw new BadRequest('Identity provider did not return an ID token');
+  }
+
+  return verifyIdToken(provider, id_token, nonce);
+};
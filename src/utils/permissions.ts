@@ -0,0 +1,103 @@
+import { EventRole, ParticipantStatus, Prisma } from '@prisma/client';
+
+export enum EventPermission {
+  EDIT_EVENT = 'EDIT_EVENT',
+  CHANGE_COVER = 'CHANGE_COVER',
+  MANAGE_PARTICIPANTS = 'MANAGE_PARTICIPANTS',
+  MODERATE_MEDIA = 'MODERATE_MEDIA',
+  MANAGE_ROLES = 'MANAGE_ROLES',
+}
+
+// What each participant role may do; the event creator can always do everything
+export const ROLE_PERMISSIONS: Record<EventRole, EventPermission[]> = {
+  [EventRole.ADMIN]: Object.values(EventPermission),
+  [EventRole.MODERATOR]: [EventPermission.MANAGE_PARTICIPANTS, EventPermission.MODERATE_MEDIA],
+  [EventRole.ATTENDEE]: [],
+};
+
+export interface EventAccess {
+  isCreator: boolean;
+  role: EventRole | null;
+  permissions: EventPermission[];
+}
+
+/**
+ * Work out a user's role and permissions in an event
+ * @param prisma - The Prisma client
+ * @param eventId - The event
+ * @param userId - The user
+ * @returns The user's access, or null if the event doesn't exist
+ */
+export const getEventAccess = async (
+  prisma: Prisma.TransactionClient,
+  eventId: string,
+  userId: string
+): Promise<EventAccess | null> => {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: {
+      creatorId: true,
+      participants: {
+        where: { userId, status: ParticipantStatus.JOINED },
+        select: { role: true },
+      },
+    },
+  });
+
+  if (!event) {
+    return null;
+  }
+
+  const isCreator = event.creatorId === userId;
+  const role = isCreator ? EventRole.ADMIN : event.participants[0]?.role || null;
+
+  return { isCreator, role, permissions: role ? ROLE_PERMISSIONS[role] : [] };
+};
+
+/**
+ * Check whether a user holds a permission in an event
+ * @param prisma - The Prisma client
+ * @param eventId - The event
+ * @param userId - The user
+ * @param permission - The permission to check
+ * @returns Whether the user has the permission
+ */
+export const hasEventPermission = async (
+  prisma: Prisma.TransactionClient,
+  eventId: string,
+  userId: string,
+  permission: EventPermission
+): Promise<boolean> => {
+  const access = await getEventAccess(prisma, eventId, userId);
+  return !!access?.permissions.includes(permission);
+};
+
+/**
+ * Find which of a set of events a user holds a permission in
+ * @param prisma - The Prisma client
+ * @param eventIds - The events to check
+ * @param userId - The user
+ * @param permission - The permission to check
+ * @returns The ids of the events where the user has the permission
+ */
+export const getEventsWithPermission = async (
+  prisma: Prisma.TransactionClient,
+  eventIds: string[],
+  userId: string,
+  permission: EventPermission
+): Promise<Set<string>> => {
+  const roles = (Object.keys(ROLE_PERMISSIONS) as EventRole[]).filter(role => ROLE_PERMISSIONS[role].includes(permission));
+
+  const events = await prisma.event.findMany({
+    where: {
+      id: { in: eventIds },
+      OR: [
+        { creatorId: userId },
+        { participants: { some: { userId, status: ParticipantStatus.JOINED, role: { in: roles } } } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  return new Set(events.map(event => event.id));
+};
@@ -0,0 +1,119 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { buildAppUrl } from './mailer';
+
+const QR_MARGIN = 2;
+// Printed codes get scuffed and partly covered, so favour error correction over density
+const ERROR_CORRECTION = 'Q';
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+export interface QrBranding {
+  eventName: string;
+  coverImage?: Buffer | null; // JPEG or PNG
+}
+
+/**
+ * Format a join code for people to read, e.g. "ABCD-EFGH"
+ * @param joinCode - The stored join code
+ * @returns The code split into groups of four
+ */
+export const formatJoinCode = (joinCode: string): string => {
+  return joinCode.match(/.{1,4}/g)?.join('-') || joinCode;
+};
+
+/**
+ * Build the URL a join QR code points to
+ * @param joinCode - The event's current join code
+ * @returns The app URL that opens the join flow with the code filled in
+ */
+export const buildJoinUrl = (joinCode: string): string => {
+  return buildAppUrl('/join', { code: joinCode });
+};
+
+/**
+ * Render a QR code as a PNG
+ * @param text - The content to encode
+ * @param size - Width and height in pixels
+ * @returns The PNG image
+ */
+export const renderQrPng = (text: string, size: number): Promise<Buffer> => {
+  return QRCode.toBuffer(text, { type: 'png', width: size, margin: QR_MARGIN, errorCorrectionLevel: ERROR_CORRECTION });
+};
+
+const escapeXml = (value: string): string => {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+/**
+ * Render a QR code as an SVG, optionally framed with the event name and code
+ * @param text - The content to encode
+ * @param joinCode - The join code printed under the QR code when branded
+ * @param branding - Event details to print around the code
+ * @returns The SVG document
+ */
+export const renderQrSvg = async (text: string, joinCode: string, branding?: QrBranding): Promise<string> => {
+  const qrSvg = await QRCode.toString(text, { type: 'svg', margin: QR_MARGIN, errorCorrectionLevel: ERROR_CORRECTION });
+  if (!branding) {
+    return qrSvg;
+  }
+
+  // Nest the QR code between a title and the readable code
+  const qr = qrSvg.replace('<svg ', '<svg x="20" y="70" width="360" height="360" ');
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 500" width="400" height="500">',
+    '<rect width="400" height="500" fill="#ffffff"/>',
+    `<text x="200" y="45" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="24" font-weight="bold">${escapeXml(branding.eventName)}</text>`,
+    qr,
+    `<text x="200" y="462" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="22" letter-spacing="2">${escapeXml(formatJoinCode(joinCode))}</text>`,
+    `<text x="200" y="485" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="12" fill="#666666">Scan to join and share your photos</text>`,
+    '</svg>',
+  ].join('');
+};
+
+/**
+ * Render a printable A6 table card with the QR code, join code and event branding
+ * @param text - The content to encode
+ * @param joinCode - The join code printed under the QR code
+ * @param branding - Event details to print on the card
+ * @returns The PDF document
+ */
+export const renderTableCardPdf = async (text: string, joinCode: string, branding: QrBranding): Promise<Buffer> => {
+  const qrPng = await renderQrPng(text, 600);
+  const doc = new PDFDocument({ size: 'A6', margin: 24, info: { Title: `${branding.eventName} - join card` } });
+
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const { width } = doc.page;
+  const contentWidth = width - 48;
+  let y = 24;
+
+  if (branding.coverImage) {
+    try {
+      doc.image(branding.coverImage, 24, y, { fit: [contentWidth, 90], align: 'center', valign: 'center' });
+      y += 100;
+    } catch (error) {
+      // Leave the cover out rather than failing the whole card on an unsupported image
+    }
+  }
+
+  doc.font('Helvetica-Bold').fontSize(16).text(branding.eventName, 24, y, { width: contentWidth, align: 'center' });
+  y = doc.y + 4;
+  doc.font('Helvetica').fontSize(9).fillColor('#555555')
+    .text('Scan to join and share your photos', 24, y, { width: contentWidth, align: 'center' });
+  y = doc.y + 8;
+
+  const qrSize = Math.min(contentWidth, doc.page.height - y - 70);
+  doc.image(qrPng, (width - qrSize) / 2, y, { width: qrSize, height: qrSize });
+  y += qrSize + 6;
+
+  doc.fillColor('#000000').font('Helvetica').fontSize(9).text('or enter the code', 24, y, { width: contentWidth, align: 'center' });
+  doc.font('Courier-Bold').fontSize(18).text(formatJoinCode(joinCode), { width: contentWidth, align: 'center' });
+
+  doc.end();
+  return finished;
+};
@@ -0,0 +1,58 @@
+import { Prisma } from '@prisma/client';
+
+// A fixed palette keeps counts meaningful and stops reactions being used as free-text comments
+export const REACTION_EMOJIS = ['❤️', '😍', '😂', '😮', '👏', '🔥'];
+export const DEFAULT_REACTION = '❤️';
+
+export interface ReactionSummary {
+  total: number;
+  counts: Record<string, number>;
+  reactedByMe: string[];
+}
+
+/**
+ * Aggregate reactions for a page of media
+ * @param prisma - The Prisma client
+ * @param imageIds - The media items to summarise
+ * @param userId - The current user, whose own reactions are flagged
+ * @returns A summary per media item; items without reactions get an empty summary
+ */
+export const getReactionSummaries = async (
+  prisma: Prisma.TransactionClient,
+  imageIds: string[],
+  userId?: string
+): Promise<Map<string, ReactionSummary>> => {
+  const summaries = new Map<string, ReactionSummary>(
+    imageIds.map(id => [id, { total: 0, counts: {}, reactedByMe: [] }])
+  );
+
+  if (imageIds.length === 0) {
+    return summaries;
+  }
+
+  const [groups, mine] = await Promise.all([
+    prisma.reaction.groupBy({
+      by: ['imageId', 'emoji'],
+      where: { imageId: { in: imageIds } },
+      _count: { _all: true },
+    }),
+    userId
+      ? prisma.reaction.findMany({
+          where: { imageId: { in: imageIds }, userId },
+          select: { imageId: true, emoji: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  for (const group of groups) {
+    const summary = summaries.get(group.imageId)!;
+    summary.counts[group.emoji] = group._count._all;
+    summary.total += group._count._all;
+  }
+
+  for (const reaction of mine) {
+    summaries.get(reaction.imageId)!.reactedByMe.push(reaction.emoji);
+  }
+
+  return summaries;
+};
@@ -0,0 +1,252 @@
+import { Prisma } from '@prisma/client';
+
+export const SEARCH_TYPES = ['media', 'events'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export const MAX_QUERY_LENGTH = 200;
+
+// Control characters can't occur in user text, so they can stand in for the <mark> tags until the text is escaped
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${MARK_START}, StopSel=${MARK_END}, MaxWords=30, MinWords=10, MaxFragments=2`;
+
+export interface SearchPage {
+  skip: number;
+  take: number;
+}
+
+export interface MediaHighlights {
+  description: string | null;
+  eventName: string | null;
+  eventLocation: string | null;
+  comment: string | null;
+}
+
+export interface EventHighlights {
+  name: string | null;
+  location: string | null;
+  description: string | null;
+}
+
+export interface SearchHit<T> {
+  id: string;
+  rank: number;
+  highlights: T;
+}
+
+interface MediaRow {
+  id: string;
+  rank: number;
+  description: string | null;
+  eventName: string | null;
+  eventLocation: string | null;
+  comment: string | null;
+}
+
+interface EventRow {
+  id: string;
+  rank: number;
+  name: string | null;
+  location: string | null;
+  description: string | null;
+}
+
+const escapeHtml = (value: string): string => {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+// Escape the headline so it can be rendered as HTML, then turn the markers into <mark> tags
+const toHighlight = (headline: string | null): string | null => {
+  if (headline === null) {
+    return null;
+  }
+
+  return escapeHtml(headline)
+    .split(MARK_START).join('<mark>')
+    .split(MARK_END).join('</mark>');
+};
+
+// The vectors are generated with the english configuration, so queries must use it too
+const tsQuery = (query: string) => Prisma.sql`websearch_to_tsquery('english', ${query})`;
+
+// Headline for a field, or null when the match was somewhere else
+const headline = (field: Prisma.Sql) => Prisma.sql`
+  CASE WHEN to_tsvector('english', coalesce(${field}, '')) @@ q."query"
+    THEN ts_headline('english', ${field}, q."query", ${HEADLINE_OPTIONS})
+  END
+`;
+
+// Same rules as the recent media feed: public galleries, the user's own events and their own uploads
+const visibleMedia = (userId: string) => Prisma.sql`
+  i."hiddenAt" IS NULL AND (
+    e."isPublicGallery"
+    OR e."creatorId" = ${userId}
+    OR i."uploaderId" = ${userId}
+    OR EXISTS (
+      SELECT 1 FROM "EventParticipant" p
+      WHERE p."eventId" = i."eventId" AND p."userId" = ${userId} AND p."status" = 'JOINED'
+    )
+  )
+`;
+
+// Same rules as the event listing: drafts only for their organizers, archived events left out
+const visibleEvents = (userId: string) => Prisma.sql`
+  e."status" <> 'ARCHIVED' AND (
+    (e."isPublicGallery" AND e."status" <> 'DRAFT')
+    OR e."creatorId" = ${userId}
+    OR EXISTS (
+      SELECT 1 FROM "EventParticipant" p
+      WHERE p."eventId" = e."id" AND p."userId" = ${userId} AND p."status" = 'JOINED'
+    )
+  )
+`;
+
+const mediaMatches = (query: string, userId: string) => Prisma.sql`
+  q AS (SELECT ${tsQuery(query)} AS "query"),
+  -- Each branch can use its own GIN index
+  candidates AS (
+    SELECT i."id" FROM "Image" i, q WHERE i."searchVector" @@ q."query"
+    UNION
+    SELECT i."id" FROM "Image" i JOIN "Event" e ON e."id" = i."eventId", q WHERE e."searchVector" @@ q."query"
+    UNION
+    SELECT c."imageId" FROM "Comment" c, q WHERE c."deletedAt" IS NULL AND c."searchVector" @@ q."query"
+  ),
+  matches AS (
+    SELECT
+      i."id",
+      i."createdAt",
+      i."description",
+      e."name" AS "eventName",
+      e."location" AS "eventLocation",
+      bc."content" AS "comment",
+      -- A match in the description counts most, then comments, then the event
+      coalesce(ts_rank(i."searchVector", q."query"), 0)
+        + 0.6 * coalesce(bc."rank", 0)
+        + 0.4 * coalesce(ts_rank(e."searchVector", q."query"), 0) AS "rank"
+    FROM candidates
+    JOIN "Image" i ON i."id" = candidates."id"
+    LEFT JOIN "Event" e ON e."id" = i."eventId"
+    CROSS JOIN q
+    -- The best matching comment, if any, is shown as the highlight
+    LEFT JOIN LATERAL (
+      SELECT c."content", ts_rank(c."searchVector", q."query") AS "rank"
+      FROM "Comment" c
+      WHERE c."imageId" = i."id" AND c."deletedAt" IS NULL AND c."searchVector" @@ q."query"
+      ORDER BY "rank" DESC
+      LIMIT 1
+    ) bc ON true
+    WHERE ${visibleMedia(userId)}
+  )
+`;
+
+/**
+ * Search media by description, the comments on it, and its event's name and location
+ * @param prisma - The Prisma client
+ * @param query - The search text, in web search syntax (quotes, or, -)
+ * @param userId - The searching user, whose visibility rules apply
+ * @param page - Which ranked results to return
+ * @returns The total number of matches and the page's ids in rank order, with highlights
+ */
+export const searchMedia = async (
+  prisma: Prisma.TransactionClient,
+  query: string,
+  userId: string,
+  { skip, take }: SearchPage
+): Promise<{ total: number; hits: SearchHit<MediaHighlights>[] }> => {
+  const [[{ total }], rows] = await Promise.all([
+    prisma.$queryRaw<{ total: number }[]>`
+      WITH ${mediaMatches(query, userId)}
+      SELECT count(*)::int AS "total" FROM matches
+    `,
+    prisma.$queryRaw<MediaRow[]>`
+      WITH ${mediaMatches(query, userId)}
+      SELECT
+        m."id",
+        m."rank"::float8 AS "rank",
+        ${headline(Prisma.sql`m."description"`)} AS "description",
+        ${headline(Prisma.sql`m."eventName"`)} AS "eventName",
+        ${headline(Prisma.sql`m."eventLocation"`)} AS "eventLocation",
+        CASE WHEN m."comment" IS NOT NULL
+          THEN ts_headline('english', m."comment", q."query", ${HEADLINE_OPTIONS})
+        END AS "comment"
+      FROM matches m, q
+      ORDER BY m."rank" DESC, m."createdAt" DESC, m."id"
+      LIMIT ${take} OFFSET ${skip}
+    `,
+  ]);
+
+  return {
+    total,
+    hits: rows.map(row => ({
+      id: row.id,
+      rank: row.rank,
+      highlights: {
+        description: toHighlight(row.description),
+        eventName: toHighlight(row.eventName),
+        eventLocation: toHighlight(row.eventLocation),
+        comment: toHighlight(row.comment),
+      },
+    })),
+  };
+};
+
+/**
+ * Search events by name, location and description, with name matches ranked highest
+ * @param prisma - The Prisma client
+ * @param query - The search text, in web search syntax (quotes, or, -)
+ * @param userId - The searching user, whose visibility rules apply
+ * @param page - Which ranked results to return
+ * @returns The total number of matches and the page's ids in rank order, with highlights
+ */
+export const searchEvents = async (
+  prisma: Prisma.TransactionClient,
+  query: string,
+  userId: string,
+  { skip, take }: SearchPage
+): Promise<{ total: number; hits: SearchHit<EventHighlights>[] }> => {
+  const matches = Prisma.sql`
+    FROM "Event" e, (SELECT ${tsQuery(query)} AS "query") q
+    WHERE e."searchVector" @@ q."query" AND ${visibleEvents(userId)}
+  `;
+
+  const [[{ total }], rows] = await Promise.all([
+    prisma.$queryRaw<{ total: number }[]>`SELECT count(*)::int AS "total" ${matches}`,
+    prisma.$queryRaw<EventRow[]>`
+      SELECT
+        e."id",
+        ts_rank(e."searchVector", q."query")::float8 AS "rank",
+        ${headline(Prisma.sql`e."name"`)} AS "name",
+        ${headline(Prisma.sql`e."location"`)} AS "location",
+        ${headline(Prisma.sql`e."description"`)} AS "description"
+      ${matches}
+      ORDER BY "rank" DESC, e."createdAt" DESC, e."id"
+      LIMIT ${take} OFFSET ${skip}
+    `,
+  ]);
+
+  return {
+    total,
+    hits: rows.map(row => ({
+      id: row.id,
+      rank: row.rank,
+      highlights: {
+        name: toHighlight(row.name),
+        location: toHighlight(row.location),
+        description: toHighlight(row.description),
+      },
+    })),
+  };
+};
+
+/**
+ * Find the events whose name, location or description match a query, for filtering listings
+ * @param prisma - The Prisma client
+ * @param query - The search text, in web search syntax (quotes, or, -)
+ * @returns The ids of all matching events; the listing applies its own visibility rules
+ */
+export const matchingEventIds = async (prisma: Prisma.TransactionClient, query: string): Promise<string[]> => {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT e."id" FROM "Event" e WHERE e."searchVector" @@ ${tsQuery(query)}
+  `;
+  return rows.map(row => row.id);
+};
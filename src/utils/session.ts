@@ -0,0 +1,215 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { Unauthorized } from '../libs/Error.Lib';
+import { JwtPayload } from '../types';
+
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS as string) || 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS as string) || 30;
+
+interface SessionUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Hash an opaque token so only its digest is ever stored
+ * @param token - The raw token handed to the client
+ * @returns The hex encoded SHA-256 digest
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Generate a random URL-safe token
+ * @param bytes - Number of random bytes
+ * @returns The base64url encoded token
+ */
+export const generateToken = (bytes = 48): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * Sign a short-lived access token bound to a session family
+ * @param user - The authenticated user
+ * @param sessionId - The session family the token belongs to
+ * @returns The signed JWT
+ */
+export const signAccessToken = (user: SessionUser, sessionId: string): string => {
+  const payload: JwtPayload = { id: user.id, email: user.email, name: user.name, sid: sessionId };
+  return jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+};
+
+// Store a refresh token in the given session family and sign a matching access token
+const createSession = async (
+  prisma: PrismaClient,
+  user: SessionUser,
+  meta: SessionMeta,
+  familyId: string
+): Promise<{ tokens: AuthTokens; sessionId: string }> => {
+  const refreshToken = generateToken();
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      familyId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+      userAgent: meta.userAgent,
+      ipAddress: meta.ipAddress,
+    },
+    select: { id: true },
+  });
+
+  return {
+    tokens: {
+      token: signAccessToken(user, familyId),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    },
+    sessionId: session.id,
+  };
+};
+
+/**
+ * Start a new session and issue an access/refresh token pair
+ * @param prisma - The Prisma client
+ * @param user - The authenticated user
+ * @param meta - Client details recorded on the session
+ * @returns The issued tokens
+ */
+export const issueAuthTokens = async (
+  prisma: PrismaClient,
+  user: SessionUser,
+  meta: SessionMeta = {}
+): Promise<AuthTokens> => {
+  const { tokens } = await createSession(prisma, user, meta, uuidv4());
+  return tokens;
+};
+
+/**
+ * Exchange a refresh token for a new token pair. Presenting a token that was
+ * already rotated or revoked revokes the whole session family.
+ * @param prisma - The Prisma client
+ * @param refreshToken - The raw refresh token sent by the client
+ * @param meta - Client details recorded on the new session row
+ * @returns The newly issued tokens
+ */
+export const rotateRefreshToken = async (
+  prisma: PrismaClient,
+  refreshToken: string,
+  meta: SessionMeta = {}
+): Promise<AuthTokens> => {
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { user: { select: { id: true, email: true, name: true } } },
+  });
+
+  if (!session) {
+    throw new Unauthorized('Auth', 'Invalid refresh token');
+  }
+
+  if (session.revokedAt || session.replacedById) {
+    // Reuse of an old token means it leaked; kill every token in the family
+    await revokeSessionFamily(prisma, session.familyId);
+    throw new Unauthorized('Auth', 'Refresh token reuse detected');
+  }
+
+  if (session.expiresAt < new Date()) {
+    throw new Unauthorized('Auth', 'Refresh token expired');
+  }
+
+  const { tokens, sessionId } = await createSession(prisma, session.user, meta, session.familyId);
+
+  // Guard against two concurrent refreshes both rotating the same token
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, revokedAt: null, replacedById: null },
+    data: { revokedAt: new Date(), replacedById: sessionId },
+  });
+
+  if (count === 0) {
+    await revokeSessionFamily(prisma, session.familyId);
+    throw new Unauthorized('Auth', 'Refresh token reuse detected');
+  }
+
+  return tokens;
+};
+
+/**
+ * Revoke every refresh token belonging to a session family
+ * @param prisma - The Prisma client
+ * @param familyId - The session family to revoke
+ */
+export const revokeSessionFamily = async (prisma: PrismaClient, familyId: string): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+};
+
+/**
+ * Revoke all of a user's sessions, optionally keeping the current one
+ * @param prisma - The Prisma client
+ * @param userId - The user whose sessions are revoked
+ * @param exceptFamilyId - Session family to leave untouched
+ */
+export const revokeUserSessions = async (
+  prisma: PrismaClient,
+  userId: string,
+  exceptFamilyId?: string
+): Promise<void> => {
+  await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptFamilyId ? { NOT: { familyId: exceptFamilyId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+};
+
+/**
+ * Check whether a session family still has a live refresh token
+ * @param prisma - The Prisma client
+ * @param familyId - The session family from the access token
+ * @returns True when the session has not been revoked or expired
+ */
+export const isSessionActive = async (prisma: PrismaClient, familyId: string): Promise<boolean> => {
+  const session = await prisma.session.findFirst({
+    where: { familyId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true },
+  });
+  return !!session;
+};
+
+/**
+ * Hand an unverified account over to whoever just proved they own its email address. The account may have been
+ * registered by someone else to squat the address, so every way they could still get in is removed.
+ * @param prisma - The Prisma client
+ * @param userId - The unverified user
+ */
+export const reclaimUnverifiedAccount = async (prisma: PrismaClient, userId: string): Promise<void> => {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { password: null, totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.userIdentity.deleteMany({ where: { userId } }),
+    prisma.apiKey.updateMany({ where: { userId, revokedAt: null }, data: { revokedAt: new Date() } }),
+  ]);
+  await revokeUserSessions(prisma, userId);
+};
@@ -0,0 +1,136 @@
+import { Prisma, TagSource } from '@prisma/client';
+import { BadRequest } from '../libs/Error.Lib';
+
+export const MAX_TAG_LENGTH = 50;
+export const MAX_TAGS_PER_IMAGE = 30;
+
+const TAG_PATTERN = /^[\p{L}\p{N}_]+$/u;
+// Hashtags start a word, so anchors in links like example.com/#top are skipped
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_/])#([\p{L}\p{N}_]+)/gu;
+
+// Include a media item's tags, sorted by name
+export const tagSelect = {
+  select: { tag: { select: { name: true } } },
+  orderBy: { tag: { name: 'asc' } },
+} satisfies Prisma.Image$tagsArgs;
+
+/**
+ * Flatten the tags selected with tagSelect into their names
+ * @param tags - The selected tags
+ * @returns The tag names
+ */
+export const toTagNames = (tags: Array<{ tag: { name: string } }>): string[] => {
+  return tags.map(({ tag }) => tag.name);
+};
+
+/**
+ * Normalise a tag to how it is stored: lowercase and without the leading #
+ * @param value - The tag as entered
+ * @returns The normalised tag, or null if it isn't a valid tag
+ */
+export const normalizeTag = (value: unknown): string | null => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const name = value.trim().replace(/^#/, '').toLowerCase();
+  if (!name || name.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(name)) {
+    return null;
+  }
+  return name;
+};
+
+/**
+ * Validate tags supplied by a user
+ * @param values - The tags from the request body
+ * @returns The distinct normalised tags
+ */
+export const parseTags = (values: unknown): string[] => {
+  if (!Array.isArray(values) || values.length === 0) {
+    throw new BadRequest('Validation', 'Tags must be a non-empty list');
+  }
+
+  const names = values.map(normalizeTag);
+  if (names.some(name => name === null)) {
+    throw new BadRequest(
+      'Validation',
+      `Tags may only contain letters, numbers and underscores, up to ${MAX_TAG_LENGTH} characters`
+    );
+  }
+  return [...new Set(names as string[])];
+};
+
+/**
+ * Find the hashtags in a description
+ * @param text - The description
+ * @returns The distinct normalised hashtags, in the order they appear
+ */
+export const extractHashtags = (text?: string | null): string[] => {
+  if (!text) {
+    return [];
+  }
+
+  const names = Array.from(text.matchAll(HASHTAG_PATTERN), match => normalizeTag(match[1]));
+  return [...new Set(names.filter((name): name is string => name !== null))].slice(0, MAX_TAGS_PER_IMAGE);
+};
+
+/**
+ * Attach tags to a media item, creating any tags that don't exist yet
+ * @param prisma - A transaction client
+ * @param imageId - The media item
+ * @param names - Normalised tag names
+ * @param source - Whether the tags came from the description or were added by hand
+ * @param addedById - The user adding them, if not a guest
+ */
+export const addImageTags = async (
+  prisma: Prisma.TransactionClient,
+  imageId: string,
+  names: string[],
+  source: TagSource,
+  addedById?: string
+): Promise<void> => {
+  if (names.length === 0) {
+    return;
+  }
+
+  await prisma.tag.createMany({
+    data: names.map(name => ({ name })),
+    skipDuplicates: true,
+  });
+
+  const tags = await prisma.tag.findMany({
+    where: { name: { in: names } },
+    select: { id: true },
+  });
+
+  // A tag already on the media keeps its original source
+  await prisma.imageTag.createMany({
+    data: tags.map(tag => ({ imageId, tagId: tag.id, source, addedById })),
+    skipDuplicates: true,
+  });
+};
+
+/**
+ * Bring a media item's hashtag tags in line with its description. Tags added by hand are left alone.
+ * @param prisma - A transaction client
+ * @param imageId - The media item
+ * @param description - The media's current description
+ * @param addedById - The user who wrote the description, if not a guest
+ */
+export const syncHashtags = async (
+  prisma: Prisma.TransactionClient,
+  imageId: string,
+  description: string | null,
+  addedById?: string
+): Promise<void> => {
+  const names = extractHashtags(description);
+
+  await prisma.imageTag.deleteMany({
+    where: { imageId, source: TagSource.HASHTAG, tag: { name: { notIn: names } } },
+  });
+
+  const attached = toTagNames(await prisma.imageTag.findMany({ where: { imageId }, ...tagSelect }));
+  const added = names.filter(name => !attached.includes(name));
+  const room = Math.max(0, MAX_TAGS_PER_IMAGE - attached.length);
+  await addImageTags(prisma, imageId, added.slice(0, room), TagSource.HASHTAG, addedById);
+};
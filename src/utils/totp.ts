@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+// Key used to encrypt TOTP secrets at rest
+const getEncryptionKey = (): Buffer => {
+  return crypto.createHash('sha256').update(process.env.TOTP_ENCRYPTION_KEY || process.env.JWT_SECRET!).digest();
+};
+
+/**
+ * Generate a new base32 encoded TOTP secret
+ * @returns The secret
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * Compute the TOTP code for a time step (RFC 6238, HMAC-SHA1)
+ * @param secret - The base32 encoded secret
+ * @param step - The 30 second time step
+ * @returns The zero padded code
+ */
+export const generateTotp = (secret: string, step: number = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS)): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Check a code against the current time step, allowing for slight clock drift
+ * @param secret - The base32 encoded secret
+ * @param code - The code entered by the user
+ * @param lastUsedStep - Step of the last accepted code, which can't be reused
+ * @returns The matched time step, or null when the code is invalid
+ */
+export const verifyTotp = (secret: string, code: string, lastUsedStep?: number | null): number | null => {
+  const normalized = (code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) {
+    return null;
+  }
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (const step of [currentStep, currentStep - 1, currentStep + 1]) {
+    if (lastUsedStep !== undefined && lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+/**
+ * Build the otpauth:// URI authenticator apps scan as a QR code
+ * @param secret - The base32 encoded secret
+ * @param accountName - Usually the user's email
+ * @returns The otpauth URI
+ */
+export const buildOtpauthUri = (secret: string, accountName: string): string => {
+  const issuer = process.env.TOTP_ISSUER || 'Moments';
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Encrypt a TOTP secret for storage (AES-256-GCM)
+ * @param secret - The base32 encoded secret
+ * @returns iv, auth tag and ciphertext joined with dots
+ */
+export const encryptTotpSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+};
+
+/**
+ * Decrypt a stored TOTP secret
+ * @param payload - The value produced by encryptTotpSecret
+ * @returns The base32 encoded secret
+ */
+export const decryptTotpSecret = (payload: string): string => {
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Generate human friendly one-time recovery codes
+ * @param count - Number of codes
+ * @returns Codes formatted as xxxxx-xxxxx
+ */
+export const generateRecoveryCodes = (count = 10): string[] => {
+  return Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+};
+
+/**
+ * Normalize a recovery code as typed by a user before hashing
+ * @param code - The code entered by the user
+ * @returns Lowercase code without spaces or dashes
+ */
+export const normalizeRecoveryCode = (code: string): string => {
+  return (code || '').toLowerCase().replace(/[\s-]/g, '');
+};
@@ -0,0 +1,109 @@
+import { PrismaClient } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import { Unauthorized } from '../libs/Error.Lib';
+import { hashToken } from './session';
+import { decryptTotpSecret, generateRecoveryCodes, normalizeRecoveryCode, verifyTotp } from './totp';
+
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const CHALLENGE_PURPOSE = 'two_factor';
+
+interface ChallengePayload {
+  sub: string;
+  purpose: string;
+}
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Sign the short-lived token a client exchanges for real tokens once the second factor is checked
+ * @param userId - The user who passed the first factor
+ * @returns The challenge token
+ */
+export const createTwoFactorChallenge = (userId: string): string => {
+  const payload: ChallengePayload = { sub: userId, purpose: CHALLENGE_PURPOSE };
+  return jwt.sign(payload, process.env.JWT_SECRET!, { expiresIn: CHALLENGE_TTL_SECONDS });
+};
+
+/**
+ * Verify a challenge token
+ * @param token - The challenge token from login
+ * @returns The id of the user being challenged
+ */
+export const verifyTwoFactorChallenge = (token: string): string => {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!) as ChallengePayload;
+    if (payload.purpose !== CHALLENGE_PURPOSE) {
+      throw new Error('Wrong token purpose');
+    }
+    return payload.sub;
+  } catch (error) {
+    throw new Unauthorized('Auth', 'Invalid or expired two-factor challenge');
+  }
+};
+
+/**
+ * Replace a user's recovery codes with a fresh set
+ * @param prisma - The Prisma client
+ * @param userId - The user the codes belong to
+ * @returns The plain codes, shown to the user once
+ */
+export const replaceRecoveryCodes = async (prisma: PrismaClient, userId: string): Promise<string[]> => {
+  const codes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map(code => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })),
+    }),
+  ]);
+
+  return codes;
+};
+
+/**
+ * Check a TOTP code or a one-time recovery code for a user with 2FA enabled
+ * @param prisma - The Prisma client
+ * @param userId - The user being verified
+ * @param input - Either a TOTP code or a recovery code
+ * @returns True when the second factor is valid
+ */
+export const verifySecondFactor = async (
+  prisma: PrismaClient,
+  userId: string,
+  { code, recoveryCode }: SecondFactorInput
+): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+  });
+
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    return false;
+  }
+
+  if (recoveryCode) {
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: { userId, codeHash: hashToken(normalizeRecoveryCode(recoveryCode)), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  const step = verifyTotp(decryptTotpSecret(user.totpSecret), code || '', user.totpLastUsedStep);
+  if (step === null) {
+    return false;
+  }
+
+  // Record the step atomically so the same code can't be accepted twice
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+    },
+    data: { totpLastUsedStep: step },
+  });
+  return count > 0;
+};
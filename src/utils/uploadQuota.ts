@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client';
+import { Conflict } from '../libs/Error.Lib';
+import { EventPermission, hasEventPermission } from './permissions';
+
+export type Uploader = { userId: string } | { guestId: string };
+
+export interface UploadQuota {
+  limit: number | null; // Null when there is no limit for this uploader
+  used: number; // Visible uploads; hidden ones don't count
+  remaining: number | null;
+  exempt: boolean;
+}
+
+interface QuotaEvent {
+  id: string;
+  maxPhotosPerAttendee: number | null;
+}
+
+// Media hidden by moderators gives its slot back, so the count matches what the uploader sees in the gallery.
+// Unhiding it later may leave an attendee over the limit, which only stops further uploads.
+const countUploads = (prisma: Prisma.TransactionClient, eventId: string, uploader: Uploader) => {
+  return prisma.image.count({
+    where: {
+      eventId,
+      hiddenAt: null,
+      ...('userId' in uploader ? { uploaderId: uploader.userId } : { guestId: uploader.guestId }),
+    },
+  });
+};
+
+const quotaExceeded = (limit: number, used: number) => {
+  return new Conflict(`You have reached the limit of ${limit} uploads for this event`).withDetails({
+    quota: { limit, used, remaining: 0 },
+  });
+};
+
+/**
+ * Work out how many uploads an attendee has left in an event
+ * @param prisma - The Prisma client
+ * @param event - The event and its per-attendee limit
+ * @param uploader - The user or guest uploading
+ * @returns The attendee's quota; hosts and moderators are exempt
+ */
+export const getUploadQuota = async (
+  prisma: Prisma.TransactionClient,
+  event: QuotaEvent,
+  uploader: Uploader
+): Promise<UploadQuota> => {
+  const [used, exempt] = await Promise.all([
+    countUploads(prisma, event.id, uploader),
+    'userId' in uploader
+      ? hasEventPermission(prisma, event.id, uploader.userId, EventPermission.MODERATE_MEDIA)
+      : Promise.resolve(false),
+  ]);
+
+  const limit = exempt ? null : event.maxPhotosPerAttendee;
+  return { limit, used, remaining: limit === null ? null : Math.max(limit - used, 0), exempt };
+};
+
+/**
+ * Throw if the quota has no uploads left
+ * @param quota - The attendee's current quota
+ */
+export const assertQuotaAvailable = (quota: UploadQuota): void => {
+  if (quota.limit !== null && quota.used >= quota.limit) {
+    throw quotaExceeded(quota.limit, quota.used);
+  }
+};
+
+/**
+ * Lock the uploader and recount inside a transaction, so concurrent uploads can't overshoot the limit
+ * @param tx - The transaction the new media is created in
+ * @param eventId - The event
+ * @param uploader - The user or guest uploading
+ * @param limit - The uploader's limit, or null when they have none
+ */
+export const reserveUploadSlot = async (
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  uploader: Uploader,
+  limit: number | null
+): Promise<void> => {
+  if (limit === null) {
+    return;
+  }
+
+  // Row locks serialise uploads from the same attendee until the transaction commits
+  if ('userId' in uploader) {
+    await tx.$queryRaw`
+      SELECT "id" FROM "EventParticipant"
+      WHERE "eventId" = ${eventId} AND "userId" = ${uploader.userId}
+      FOR UPDATE
+    `;
+  } else {
+    await tx.$queryRaw`SELECT "id" FROM "EventGuest" WHERE "id" = ${uploader.guestId} FOR UPDATE`;
+  }
+
+  const used = await countUploads(tx, eventId, uploader);
+  if (used >= limit) {
+    throw quotaExceeded(limit, used);
+  }
+};
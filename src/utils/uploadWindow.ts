@@ -0,0 +1,88 @@
+import { Forbidden } from '../libs/Error.Lib';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const MAX_OPENS_HOURS_BEFORE = 24 * 30;
+export const MAX_CLOSES_DAYS_AFTER = 365;
+
+export type UploadWindowState = 'open' | 'not_open_yet' | 'closed' | 'locked';
+
+export interface UploadWindowEvent {
+  startDate: Date | null;
+  endDate: Date | null;
+  uploadOpensHoursBefore: number | null;
+  uploadClosesDaysAfter: number | null;
+  uploadsReopenedUntil: Date | null;
+  galleryLockedAt: Date | null;
+}
+
+export interface UploadWindow {
+  state: UploadWindowState;
+  opensAt: Date | null;
+  closesAt: Date | null;
+  reopenedUntil: Date | null;
+  lockedAt: Date | null;
+}
+
+/**
+ * Work out when an event accepts uploads
+ * @param event - The event's dates and upload settings
+ * @param now - The time to check against
+ * @returns The window and whether it is open right now
+ */
+export const getUploadWindow = (event: UploadWindowEvent, now = new Date()): UploadWindow => {
+  const opensAt = event.startDate && event.uploadOpensHoursBefore !== null
+    ? new Date(event.startDate.getTime() - event.uploadOpensHoursBefore * HOUR_MS)
+    : null;
+  const closesAt = event.endDate && event.uploadClosesDaysAfter !== null
+    ? new Date(event.endDate.getTime() + event.uploadClosesDaysAfter * DAY_MS)
+    : null;
+  const reopenedUntil = event.uploadsReopenedUntil && event.uploadsReopenedUntil > now
+    ? event.uploadsReopenedUntil
+    : null;
+
+  let state: UploadWindowState = 'open';
+  if (event.galleryLockedAt) {
+    state = 'locked';
+  } else if (!reopenedUntil && opensAt && now < opensAt) {
+    state = 'not_open_yet';
+  } else if (!reopenedUntil && closesAt && now >= closesAt) {
+    state = 'closed';
+  }
+
+  return { state, opensAt, closesAt, reopenedUntil, lockedAt: event.galleryLockedAt };
+};
+
+/**
+ * Throw if the event's gallery is locked
+ * @param event - The event to check
+ */
+export const assertGalleryUnlocked = (event: Pick<UploadWindowEvent, 'galleryLockedAt'>): void => {
+  if (event.galleryLockedAt) {
+    throw new Forbidden('This event\'s gallery is locked and can no longer be changed')
+      .withDetails({ lockedAt: event.galleryLockedAt });
+  }
+};
+
+/**
+ * Throw if the event isn't accepting uploads right now
+ * @param event - The event's dates and upload settings
+ */
+export const assertUploadsOpen = (event: UploadWindowEvent): void => {
+  const uploadWindow = getUploadWindow(event);
+
+  if (uploadWindow.state === 'locked') {
+    assertGalleryUnlocked(event);
+  }
+
+  if (uploadWindow.state === 'not_open_yet') {
+    throw new Forbidden(`Uploads for this event open at ${uploadWindow.opensAt!.toISOString()}`)
+      .withDetails({ uploadWindow });
+  }
+
+  if (uploadWindow.state === 'closed') {
+    throw new Forbidden(`Uploads for this event closed at ${uploadWindow.closesAt!.toISOString()}`)
+      .withDetails({ uploadWindow });
+  }
+};